@@ -0,0 +1,104 @@
+import {
+  addAllowlistEntry,
+  deleteExpiredBans,
+  findActiveBan,
+  getActiveBans,
+  getAllowlistIds,
+  isAllowlisted,
+  removeAllowlistEntry,
+  removeBan,
+  upsertBan,
+  type AccessKind,
+  type BanRecord
+} from './db.js';
+
+export interface BanOptions {
+  /** Ban the target only in this group */
+  groupId?: number | null;
+  reason?: string | null;
+  /** Milliseconds until the ban expires; permanent when omitted */
+  duration?: number | null;
+}
+
+const durationUnits: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+export const accessKindLabels: Record<AccessKind, string> = {
+  user: '用户',
+  group: '群聊'
+};
+
+/**
+ * Whether to handle a message from `userId` in `groupId` (null for private chats):
+ * nobody banned there, and the user or the group is allowlisted.
+ */
+export const canAccess = (userId: number, groupId: number | null): boolean => {
+  if (findActiveBan(userId.toString(), groupId?.toString() ?? null)) return false;
+  return (
+    isAllowlisted('user', userId.toString()) ||
+    (groupId !== null && isAllowlisted('group', groupId.toString()))
+  );
+};
+
+export const getAllowlist = (): { users: number[]; groups: number[] } => ({
+  users: getAllowlistIds('user').map(Number),
+  groups: getAllowlistIds('group').map(Number)
+});
+
+/**
+ * Returns false if the target was already allowlisted.
+ */
+export const allow = (kind: AccessKind, id: number, actor: string): boolean =>
+  addAllowlistEntry(kind, id.toString(), actor);
+
+/**
+ * Returns false if the target was not allowlisted.
+ */
+export const disallow = (kind: AccessKind, id: number): boolean =>
+  removeAllowlistEntry(kind, id.toString());
+
+export const ban = (
+  kind: AccessKind,
+  id: number,
+  actor: string,
+  options: BanOptions = {}
+): BanRecord =>
+  upsertBan({
+    kind,
+    target_id: id.toString(),
+    group_id: options.groupId?.toString() ?? '',
+    reason: options.reason || null,
+    banned_by: actor,
+    expires_at: options.duration ? Date.now() + options.duration : null
+  });
+
+/**
+ * Lifts the ban on the target everywhere, or only in `groupId`; returns false if there was none.
+ */
+export const unban = (kind: AccessKind, id: number, groupId: number | null = null): boolean =>
+  removeBan(kind, id.toString(), groupId?.toString() ?? '');
+
+export const getBans = (groupId?: number): BanRecord[] => getActiveBans(groupId?.toString());
+
+/**
+ * Parses durations such as `30m`, `12h` or `7d` into milliseconds.
+ */
+export const parseDuration = (raw: string): number | null => {
+  const match = /^(\d+)([mhd])$/.exec(raw);
+  if (!match || !parseInt(match[1])) return null;
+  return parseInt(match[1]) * durationUnits[match[2]];
+};
+
+export const formatBan = (ban: BanRecord, target: string): string =>
+  `${target}${ban.group_id ? ` (仅群 ${ban.group_id})` : ''}` +
+  ` - 由 ${ban.banned_by} 封禁` +
+  (ban.expires_at ? `，${new Date(ban.expires_at).toLocaleString('zh-CN')} 到期` : '，永久') +
+  (ban.reason ? `，理由：${ban.reason}` : '');
+
+export const pruneExpiredBans = (): void => {
+  const removed = deleteExpiredBans();
+  if (removed) console.log(`[qmoji] Removed ${removed} expired bans.`);
+};
@@ -0,0 +1,122 @@
+import { insertAuditLog, type AuditLogRecord } from './db.js';
+
+export type AuditAction =
+  | 'insert'
+  | 'delete'
+  | 'clear'
+  | 'restore'
+  | 'purge'
+  | 'transfer'
+  | 'copy'
+  | 'rename'
+  | 'merge'
+  | 'alias.add'
+  | 'alias.remove'
+  | 'tag.add'
+  | 'tag.remove'
+  | 'approve'
+  | 'reject'
+  | 'import'
+  | 'allowlist.add'
+  | 'allowlist.remove'
+  | 'blocklist.add'
+  | 'blocklist.remove'
+  | 'blocklist.purge'
+  | 'link.add'
+  | 'link.remove'
+  | 'circle.add'
+  | 'circle.remove';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  insert: '保存',
+  delete: '删除',
+  clear: '清除',
+  restore: '恢复',
+  purge: '永久删除过期的回收站表情',
+  transfer: '转移',
+  copy: '复制',
+  rename: '重命名',
+  merge: '合并',
+  'alias.add': '添加别名',
+  'alias.remove': '移除别名',
+  'tag.add': '添加标签',
+  'tag.remove': '移除标签',
+  approve: '通过投稿',
+  reject: '拒绝投稿',
+  import: '导入',
+  'allowlist.add': '添加白名单',
+  'allowlist.remove': '移除白名单',
+  'blocklist.add': '添加黑名单',
+  'blocklist.remove': '移除黑名单',
+  'blocklist.purge': '清除黑名单用户的表情',
+  'link.add': '共享表情库',
+  'link.remove': '取消共享表情库',
+  'circle.add': '加入圈子',
+  'circle.remove': '移出圈子'
+};
+
+export interface AuditEntry {
+  action: AuditAction;
+  /** QQ number of whoever made the change, `http` for the admin API or `system` for jobs. */
+  actor: string | number;
+  /** Scope of the affected images: a QQ number, `chat-<gid>` or `global`. */
+  scope?: string | null;
+  /** Group the command was run in. */
+  groupId?: string | number | null;
+  name?: string | null;
+  imageIds?: string[];
+  /** Action-specific extras, e.g. `to` for renames and transfers or `target` for list edits. */
+  details?: Record<string, string | number | null>;
+}
+
+/**
+ * Appends an entry to the audit log. Failures are logged but never block the change itself.
+ */
+export const recordAudit = (entry: AuditEntry): void => {
+  try {
+    insertAuditLog({
+      action: entry.action,
+      actor: entry.actor.toString(),
+      scope: entry.scope ?? null,
+      group_id: entry.groupId?.toString() ?? null,
+      name: entry.name ?? null,
+      image_ids: JSON.stringify(entry.imageIds ?? []),
+      details: entry.details ? JSON.stringify(entry.details) : null
+    });
+  } catch (err) {
+    console.error(`[qmoji] Failed to record audit log entry ${entry.action}:`, err);
+  }
+};
+
+const formatScope = (scope: string) =>
+  scope === 'global'
+    ? '全局'
+    : scope.startsWith('chat-')
+      ? `群 ${scope.slice(5)}`
+      : `个人 ${scope}`;
+
+/**
+ * Renders an entry as one line, e.g.
+ * `#12 2025/1/1 12:00:00 123456 重命名「a」→ b [群 654321] (2 个表情：1a2b3c4d、5e6f7a8b)`.
+ */
+export const formatAuditEntry = (entry: AuditLogRecord): string => {
+  const ids = JSON.parse(entry.image_ids) as string[];
+  const details = entry.details
+    ? (JSON.parse(entry.details) as Record<string, string | number | null>)
+    : {};
+  const label = auditActionLabels[entry.action as AuditAction] ?? entry.action;
+  return (
+    `#${entry.id} ${new Date(entry.created_at).toLocaleString('zh-CN')} ${entry.actor} ${label}` +
+    (entry.name ? `「${entry.name}」` : '') +
+    (details.to !== undefined ? `→ ${details.to}` : '') +
+    (details.target !== undefined ? ` ${details.target}` : '') +
+    (entry.scope ? ` [${formatScope(entry.scope)}]` : '') +
+    (ids.length
+      ? ` (${ids.length} 个表情：${ids
+          .slice(0, 3)
+          .map((id) => id.slice(0, 8))
+          .join('、')}${ids.length > 3 ? ' 等' : ''})`
+      : '') +
+    (details.reason ? ` 理由：${details.reason}` : '')
+  );
+};
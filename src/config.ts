@@ -0,0 +1,326 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Directory holding config.json, the allowlist/blocklist and data/.
+// Defaults to the project root; QMOJI_ROOT points it elsewhere (e.g. for tests).
+export const rootDir = process.env.QMOJI_ROOT
+  ? path.resolve(process.env.QMOJI_ROOT)
+  : path.join(__dirname, '..');
+
+export const dataDir = path.join(rootDir, 'data');
+
+export interface HttpConfig {
+  enabled?: boolean;
+  host?: string;
+  port?: number;
+  token?: string;
+}
+
+export interface DownloadConfig {
+  maxSize?: number;
+  timeout?: number;
+  retries?: number;
+}
+
+export interface QuotaLimitConfig {
+  count?: number;
+  size?: number;
+}
+
+export interface BucketConfig {
+  capacity: number;
+  perMinute: number;
+}
+
+/**
+ * Token buckets per level; null disables a level, omitted ones use the built-in defaults.
+ */
+export interface RateLimitConfig {
+  user?: BucketConfig | null;
+  group?: BucketConfig | null;
+  global?: BucketConfig | null;
+}
+
+export interface Config {
+  napcatWs: string;
+  napcatToken: string;
+  admins: number[];
+  prefixes: {
+    save: string[];
+    groupSave: string[];
+    globalSave: string[];
+    use: string[];
+    utils: string[];
+  };
+  reactOnNotFound: boolean;
+  http?: HttpConfig;
+  download?: DownloadConfig;
+  quotas?: {
+    personal?: QuotaLimitConfig;
+    group?: QuotaLimitConfig;
+    global?: QuotaLimitConfig;
+  };
+  trash?: {
+    retentionDays?: number;
+  };
+  rateLimits?: {
+    use?: RateLimitConfig;
+    save?: RateLimitConfig;
+    onLimit?: 'ignore' | 'react';
+  };
+}
+
+export const configPath = path.join(rootDir, 'config.json');
+
+/**
+ * config.json could not be read or does not match the schema; `issues` lists every problem.
+ */
+export class ConfigError extends Error {
+  constructor(
+    readonly issues: string[],
+    options?: ErrorOptions
+  ) {
+    super(`Invalid config.json:\n${issues.map((issue) => ` - ${issue}`).join('\n')}`, options);
+    this.name = 'ConfigError';
+  }
+}
+
+type Schema =
+  | { type: 'string'; default?: string; char?: boolean; nonEmpty?: boolean }
+  | { type: 'boolean'; default?: boolean }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'enum'; values: string[] }
+  | { type: 'array'; items: Schema; default?: unknown[]; nonEmpty?: boolean }
+  | { type: 'object'; fields: Record<string, Schema>; optional?: boolean; nullable?: boolean };
+
+const optional = <T extends Schema>(schema: T) => ({ ...schema, optional: true }) as T;
+
+const bucketSchema: Schema = {
+  type: 'object',
+  nullable: true,
+  optional: true,
+  fields: {
+    capacity: { type: 'number', integer: true, min: 1 },
+    perMinute: { type: 'number', min: 0 }
+  }
+};
+
+const rateLimitSchema: Schema = {
+  type: 'object',
+  optional: true,
+  fields: { user: bucketSchema, group: bucketSchema, global: bucketSchema }
+};
+
+const quotaLimitSchema: Schema = {
+  type: 'object',
+  optional: true,
+  fields: {
+    count: optional({ type: 'number', integer: true, min: 0 }),
+    size: optional({ type: 'number', integer: true, min: 0 })
+  }
+};
+
+const prefixSchema = (fallback: string, char = true): Schema => ({
+  type: 'array',
+  items: { type: 'string', char, nonEmpty: true },
+  default: [fallback],
+  nonEmpty: true
+});
+
+const configSchema: Schema = {
+  type: 'object',
+  fields: {
+    napcatWs: { type: 'string', nonEmpty: true },
+    napcatToken: { type: 'string', default: '' },
+    admins: { type: 'array', items: { type: 'number', integer: true }, default: [] },
+    prefixes: {
+      type: 'object',
+      fields: {
+        save: prefixSchema('#'),
+        groupSave: prefixSchema('%'),
+        globalSave: prefixSchema('&'),
+        use: prefixSchema('.'),
+        utils: prefixSchema('qmoji', false)
+      }
+    },
+    reactOnNotFound: { type: 'boolean', default: true },
+    http: {
+      type: 'object',
+      optional: true,
+      fields: {
+        enabled: optional({ type: 'boolean' }),
+        host: optional({ type: 'string' }),
+        port: optional({ type: 'number', integer: true, min: 1, max: 65535 }),
+        token: optional({ type: 'string' })
+      }
+    },
+    download: {
+      type: 'object',
+      optional: true,
+      fields: {
+        maxSize: optional({ type: 'number', integer: true, min: 1 }),
+        timeout: optional({ type: 'number', integer: true, min: 1 }),
+        retries: optional({ type: 'number', integer: true, min: 0 })
+      }
+    },
+    quotas: {
+      type: 'object',
+      optional: true,
+      fields: { personal: quotaLimitSchema, group: quotaLimitSchema, global: quotaLimitSchema }
+    },
+    trash: {
+      type: 'object',
+      optional: true,
+      fields: { retentionDays: optional({ type: 'number', min: 0 }) }
+    },
+    rateLimits: {
+      type: 'object',
+      optional: true,
+      fields: {
+        use: rateLimitSchema,
+        save: rateLimitSchema,
+        onLimit: optional({ type: 'enum', values: ['ignore', 'react'] })
+      }
+    }
+  }
+};
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks `value` against `schema`, collecting problems into `issues`;
+ * returns the value with defaults filled in for missing keys.
+ */
+const validate = (schema: Schema, value: unknown, at: string, issues: string[]): unknown => {
+  const fail = (expected: string) => {
+    issues.push(`${at || '(root)'}: expected ${expected}, got ${JSON.stringify(value)}`);
+    return value;
+  };
+  if (value === undefined) {
+    if ('default' in schema && schema.default !== undefined) return schema.default;
+    if ('optional' in schema && schema.optional) return undefined;
+    if (schema.type !== 'object') {
+      issues.push(`${at}: is required`);
+      return value;
+    }
+    // Required sections may be omitted when all of their keys have defaults
+    value = {};
+  }
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('a string');
+      if (schema.char && [...value].length !== 1) return fail('a single character');
+      if (schema.nonEmpty && !value) return fail('a non-empty string');
+      return value;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : fail('true or false');
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('a number');
+      if (schema.integer && !Number.isInteger(value)) return fail('an integer');
+      if (schema.min !== undefined && value < schema.min) return fail(`a number >= ${schema.min}`);
+      if (schema.max !== undefined && value > schema.max) return fail(`a number <= ${schema.max}`);
+      return value;
+    case 'enum':
+      return schema.values.includes(value as string)
+        ? value
+        : fail(`one of ${schema.values.map((v) => `"${v}"`).join(', ')}`);
+    case 'array':
+      if (!Array.isArray(value)) return fail(`an array (got ${describe(value)})`);
+      if (schema.nonEmpty && !value.length) return fail('a non-empty array');
+      return value.map((item, i) => validate(schema.items, item, `${at}[${i}]`, issues));
+    case 'object': {
+      if (value === null && schema.nullable) return null;
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`an object (got ${describe(value)})`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.fields)) issues.push(`${at ? `${at}.` : ''}${key}: unknown key`);
+      }
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const child = validate(
+          field,
+          (value as Record<string, unknown>)[key],
+          at ? `${at}.${key}` : key,
+          issues
+        );
+        if (child !== undefined) result[key] = child;
+      }
+      return result;
+    }
+  }
+};
+
+/**
+ * Reads and validates config.json, throwing a ConfigError listing every problem.
+ */
+export const loadConfig = (): Config => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    throw new ConfigError([`cannot read ${configPath}: ${(err as Error).message}`], {
+      cause: err
+    });
+  }
+  const issues: string[] = [];
+  const parsed = validate(configSchema, raw, '', issues) as Config;
+  if (issues.length) throw new ConfigError(issues);
+  return parsed;
+};
+
+// Other modules read this object at call time, so reloads replace its contents in place
+const config = (() => {
+  try {
+    return loadConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(`[qmoji] ${err.message}`);
+    process.exit(1);
+  }
+})();
+
+/**
+ * Re-reads config.json into the shared config object and returns the top-level keys
+ * that changed. An invalid file throws and leaves the current config untouched.
+ */
+export const reloadConfig = (): (keyof Config)[] => {
+  const next = loadConfig();
+  const keys = [...new Set([...Object.keys(config), ...Object.keys(next)])] as (keyof Config)[];
+  const changed = keys.filter((key) => JSON.stringify(config[key]) !== JSON.stringify(next[key]));
+  for (const key of changed) {
+    if (next[key] === undefined) delete config[key];
+  }
+  Object.assign(config, next);
+  return changed;
+};
+
+/**
+ * Calls `listener` with the changed keys whenever config.json is edited; invalid edits
+ * are logged and ignored. The directory is watched since editors often replace the file.
+ */
+export const watchConfig = (listener: (changed: (keyof Config)[]) => void): fs.FSWatcher => {
+  let timer: NodeJS.Timeout | undefined;
+  const watcher = fs.watch(rootDir, (_, fileName) => {
+    if (fileName !== 'config.json') return;
+    // Editors write in several steps; wait for the file to settle
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const changed = reloadConfig();
+        if (changed.length) listener(changed);
+      } catch (err) {
+        console.error(`[qmoji] Keeping the current config: ${(err as Error).message}`);
+      }
+    }, 200);
+  });
+  watcher.unref();
+  return watcher;
+};
+
+export default config;
@@ -2,31 +2,18 @@ import Database from 'better-sqlite3';
 import { randomUUID } from 'crypto';
 import path from 'path';
 import fs from 'fs';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { dataDir } from './config.js';
+import { getMigrationStatus, runMigrations } from './migrations/index.js';
 
 // Initialize database
-const dbPath = path.join(__dirname, '..', 'data', 'qmoji.db');
+const dbPath = path.join(dataDir, 'qmoji.db');
 if (!fs.existsSync(path.dirname(dbPath))) {
   fs.mkdirSync(path.dirname(dbPath), { recursive: true });
 }
 const db = new Database(dbPath);
 
-// Create images table
-db.exec(`
-  CREATE TABLE IF NOT EXISTS images (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    file_path TEXT NOT NULL,
-    user_id TEXT NOT NULL,
-    created_at INTEGER NOT NULL,
-    saved_by TEXT NOT NULL,
-    saved_from TEXT,
-    use_count INTEGER NOT NULL DEFAULT 0
-  )
-`);
+// Bring the schema up to date before anything else touches it
+await runMigrations(db, dbPath);
 
 export interface ImageRecord {
   id: string;
@@ -37,42 +24,140 @@ export interface ImageRecord {
   saved_by: string;
   saved_from: string | null;
   use_count: number;
+  blob_hash: string | null;
+  status: 'approved' | 'pending' | 'deleted';
+  submission_id: number | null;
+  deleted_at: number | null;
+  deleted_by: string | null;
 }
 
-export const insertImage = (
-  name: string,
-  filePath: string,
-  userId: string,
-  savedBy: string,
-  savedFrom: string | null = null
-): ImageRecord => {
-  const id = randomUUID();
-  const created_at = Date.now();
-  const use_count = 0;
+export interface BlobRecord {
+  hash: string;
+  file_path: string;
+  size: number;
+  ref_count: number;
+  created_at: number;
+}
+
+export interface SubmissionRecord {
+  id: number;
+  name: string;
+  submitted_by: string;
+  submitted_from: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: number;
+  reviewed_by: string | null;
+  reviewed_at: number | null;
+  reason: string | null;
+}
+
+export interface AliasRecord {
+  alias: string;
+  name: string;
+  user_id: string;
+  created_at: number;
+  created_by: string;
+}
+
+export type BlobInfo = Pick<BlobRecord, 'hash' | 'file_path' | 'size'>;
 
+const upsertBlob = (blob: BlobInfo) => {
   const stmt = db.prepare(`
-    INSERT INTO images (id, name, file_path, user_id, created_at, saved_by, saved_from, use_count)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT OR IGNORE INTO blobs (hash, file_path, size, ref_count, created_at)
+    VALUES (?, ?, ?, 0, ?)
   `);
+  stmt.run(blob.hash, blob.file_path, blob.size, Date.now());
+};
 
-  stmt.run(id, name, filePath, userId, created_at, savedBy, savedFrom, use_count);
+export const insertImage = db.transaction(
+  (
+    name: string,
+    blob: BlobInfo,
+    userId: string,
+    savedBy: string,
+    savedFrom: string | null = null,
+    submissionId: number | null = null
+  ): ImageRecord => {
+    const id = randomUUID();
+    const created_at = Date.now();
+    const use_count = 0;
+    const status = submissionId === null ? 'approved' : 'pending';
 
-  return {
-    id,
-    name,
-    file_path: filePath,
-    user_id: userId,
-    created_at,
-    saved_by: savedBy,
-    saved_from: savedFrom,
-    use_count
-  };
-};
+    upsertBlob(blob);
 
-export const deleteImageById = (id: string): boolean => {
-  const stmt = db.prepare('DELETE FROM images WHERE id = ?');
-  const result = stmt.run(id);
+    const stmt = db.prepare(`
+      INSERT INTO images (id, name, file_path, user_id, created_at, saved_by, saved_from, use_count, blob_hash, status, submission_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      name,
+      blob.file_path,
+      userId,
+      created_at,
+      savedBy,
+      savedFrom,
+      use_count,
+      blob.hash,
+      status,
+      submissionId
+    );
+
+    return {
+      id,
+      name,
+      file_path: blob.file_path,
+      user_id: userId,
+      created_at,
+      saved_by: savedBy,
+      saved_from: savedFrom,
+      use_count,
+      blob_hash: blob.hash,
+      status,
+      submission_id: submissionId,
+      deleted_at: null,
+      deleted_by: null
+    };
+  }
+);
+
+/**
+ * Points a legacy image row (stored before content addressing) at a blob.
+ */
+export const attachBlob = db.transaction((id: string, blob: BlobInfo): boolean => {
+  upsertBlob(blob);
+  const stmt = db.prepare('UPDATE images SET blob_hash = ?, file_path = ? WHERE id = ?');
+  const result = stmt.run(blob.hash, blob.file_path, id);
   return result.changes > 0;
+});
+
+export const getImagesWithoutBlob = (): ImageRecord[] => {
+  const stmt = db.prepare('SELECT * FROM images WHERE blob_hash IS NULL');
+  return stmt.all() as ImageRecord[];
+};
+
+/**
+ * Removes blobs that are no longer referenced by any image and returns them,
+ * so that the caller can delete the underlying files.
+ */
+export const takeOrphanedBlobs = db.transaction((): BlobRecord[] => {
+  const blobs = db.prepare('SELECT * FROM blobs WHERE ref_count <= 0').all() as BlobRecord[];
+  db.prepare('DELETE FROM blobs WHERE ref_count <= 0').run();
+  return blobs;
+});
+
+const trashStatement = (condition: string) =>
+  db.prepare(
+    `UPDATE images SET status = 'deleted', deleted_at = ?, deleted_by = ?
+    WHERE ${condition} AND status != 'deleted' RETURNING id`
+  );
+
+/**
+ * Moves an image to the trash. Its row and file stay until `purgeTrash` removes them.
+ */
+export const deleteImageById = (id: string, deletedBy: string): boolean => {
+  return trashStatement('id = ?').all(Date.now(), deletedBy, id).length > 0;
 };
 
 export const incrementUseCount = (id: string): boolean => {
@@ -81,62 +166,899 @@ export const incrementUseCount = (id: string): boolean => {
   return result.changes > 0;
 };
 
-export const clearImagesByNameAndUserId = (name: string, userId: string): number => {
-  const stmt = db.prepare('DELETE FROM images WHERE name = ? AND user_id = ?');
-  const result = stmt.run(name, userId);
-  return result.changes;
+export const setUseCount = (id: string, useCount: number): boolean => {
+  const stmt = db.prepare('UPDATE images SET use_count = ? WHERE id = ?');
+  const result = stmt.run(useCount, id);
+  return result.changes > 0;
+};
+
+/**
+ * Moves every approved image of a name in a scope to the trash and returns their IDs.
+ */
+export const clearImagesByNameAndUserId = (
+  name: string,
+  userId: string,
+  deletedBy: string
+): string[] => {
+  return trashStatement("name = ? AND user_id = ? AND status = 'approved'")
+    .all(Date.now(), deletedBy, name, userId)
+    .map((row) => (row as { id: string }).id);
 };
 
-export const transferImagesOwnership = (idList: string[], newUserId: string): number => {
+/**
+ * Moves images to another scope and returns the IDs that were found and moved.
+ */
+export const transferImagesOwnership = (idList: string[], newUserId: string): string[] => {
   const stmt = db.prepare('UPDATE images SET user_id = ? WHERE id = ?');
-  const results = idList.map((id) => stmt.run(newUserId, id));
-  return results.reduce((acc, r) => acc + (r.changes > 0 ? 1 : 0), 0);
+  return idList.filter((id) => stmt.run(newUserId, id).changes > 0);
+};
+
+/**
+ * Blob sizes of the given images, for checking quotas before moving them to another scope.
+ */
+export const getImageSizes = (idList: string[]): number[] => {
+  if (!idList.length) return [];
+  const stmt = db.prepare(
+    `SELECT COALESCE(blobs.size, 0) AS size FROM images LEFT JOIN blobs ON blobs.hash = images.blob_hash
+    WHERE images.id IN (${idList.map(() => '?').join(', ')})`
+  );
+  return (stmt.all(...idList) as { size: number }[]).map((row) => row.size);
 };
 
+/**
+ * Pairs each image with its blob, skipping images whose content `userId` already has
+ * under the same name.
+ */
+export const getBlobsToCopy = (
+  images: ImageRecord[],
+  userId: string
+): { image: ImageRecord; blob: BlobInfo }[] => {
+  const stmt = db.prepare(`
+    SELECT blobs.hash, blobs.file_path, blobs.size FROM blobs WHERE hash = ? AND NOT EXISTS (
+      SELECT 1 FROM images WHERE user_id = ? AND name = ? AND blob_hash = blobs.hash
+        AND status != 'deleted'
+    )
+  `);
+  const seen = new Set<string>();
+  return images.flatMap((image) => {
+    const key = `${image.name}/${image.blob_hash}`;
+    if (!image.blob_hash || seen.has(key)) return [];
+    seen.add(key);
+    const blob = stmt.get(image.blob_hash, userId, image.name) as BlobInfo | undefined;
+    return blob ? [{ image, blob }] : [];
+  });
+};
+
+/**
+ * Duplicates images into `userId`, keeping who saved them and where.
+ */
+export const copyImages = db.transaction(
+  (entries: { image: ImageRecord; blob: BlobInfo }[], userId: string): ImageRecord[] =>
+    entries.map(({ image, blob }) =>
+      insertImage(image.name, blob, userId, image.saved_by, image.saved_from)
+    )
+);
+
 export const getImageById = (id: string): ImageRecord | undefined => {
   const stmt = db.prepare('SELECT * FROM images WHERE id = ?');
   return stmt.get(id) as ImageRecord | undefined;
 };
 
+// Scopes of the groups sharing their library with a group (bound twice), directly or
+// through a circle
+const linkedScopes = `SELECT 'chat-' || owner_group AS scope FROM library_links
+  WHERE target = 'group:' || ? OR target IN (
+    SELECT 'circle:' || circle FROM circle_members WHERE group_id = ?
+  )`;
+
+const scopeCondition = (column: string, includeGlobal: boolean, includeLinked: boolean) =>
+  `(${column} = ? or ${column} = ?${includeGlobal ? ` or ${column} = 'global'` : ''}${includeLinked ? ` or ${column} IN (${linkedScopes})` : ''})`;
+
+const scopeParams = (userId: string | null, groupId: string | null, includeLinked: boolean) => [
+  userId,
+  `chat-${groupId}`,
+  ...(includeLinked ? [groupId, groupId] : [])
+];
+
 export const getImagesByUser = (
   userId: string | null = null,
   groupId: string | null = null,
-  includeGlobal = true
+  includeGlobal = true,
+  includeLinked = false
 ): ImageRecord[] => {
   const stmt = db.prepare(
-    `SELECT * FROM images WHERE (user_id = ? or user_id = ? ${includeGlobal ? "or user_id = 'global'" : ''}) ORDER BY user_id ASC, created_at DESC`
+    `SELECT * FROM images WHERE status = 'approved' AND ${scopeCondition('user_id', includeGlobal, includeLinked)} ORDER BY user_id ASC, created_at DESC`
   );
-  return stmt.all(userId, `chat-${groupId}`) as ImageRecord[];
+  return stmt.all(...scopeParams(userId, groupId, includeLinked)) as ImageRecord[];
 };
 
+/**
+ * Images named `name` (or an alias of it) in the user's and group's scopes, optionally
+ * also global ones and those of groups sharing their library with `groupId`.
+ */
 export const getImagesByNameAndUser = (
   name: string,
   userId: string,
   groupId: string | null = null,
-  includeGlobal = false
+  includeGlobal = false,
+  includeLinked = false
 ): ImageRecord[] => {
   const stmt = db.prepare(
-    `SELECT * FROM images WHERE name = ? AND (user_id = ? or user_id = ? ${includeGlobal ? "or user_id = 'global'" : ''}) ORDER BY user_id ASC, created_at DESC`
+    `SELECT * FROM images WHERE (name = ? OR name IN (SELECT name FROM aliases WHERE alias = ? AND aliases.user_id = images.user_id)) AND status = 'approved' AND ${scopeCondition('user_id', includeGlobal, includeLinked)} ORDER BY user_id ASC, created_at DESC`
   );
-  return stmt.all(name, userId, `chat-${groupId}`) as ImageRecord[];
+  return stmt.all(name, name, ...scopeParams(userId, groupId, includeLinked)) as ImageRecord[];
+};
+
+/**
+ * Returns every distinct name and alias visible in the given scopes.
+ */
+export const getVisibleNames = (
+  userId: string | null = null,
+  groupId: string | null = null,
+  includeGlobal = true,
+  includeLinked = false
+): string[] => {
+  const scope = scopeCondition('user_id', includeGlobal, includeLinked);
+  const stmt = db.prepare(
+    `SELECT DISTINCT name FROM images WHERE status = 'approved' AND ${scope}
+    UNION SELECT DISTINCT alias FROM aliases WHERE ${scope}`
+  );
+  const params = scopeParams(userId, groupId, includeLinked);
+  return (stmt.all(...params, ...params) as { name: string }[]).map((row) => row.name);
 };
 
 export const getAllImages = (): ImageRecord[] => {
-  const stmt = db.prepare('SELECT * FROM images ORDER BY created_at DESC');
+  const stmt = db.prepare(
+    "SELECT * FROM images WHERE status = 'approved' ORDER BY created_at DESC"
+  );
   return stmt.all() as ImageRecord[];
 };
 
+/**
+ * Size of the distinct blobs behind approved images, i.e. what they take up on disk.
+ */
+export const getStoredSize = (): number => {
+  const stmt = db.prepare(`
+    SELECT COALESCE(SUM(size), 0) AS size FROM blobs
+    WHERE hash IN (SELECT blob_hash FROM images WHERE status = 'approved')
+  `);
+  return (stmt.get() as { size: number }).size;
+};
+
 export const getImagesBySavedBy = (savedBy: string): ImageRecord[] => {
   const stmt = db.prepare('SELECT * FROM images WHERE saved_by = ?');
   return stmt.all(savedBy) as ImageRecord[];
 };
 
-export const deleteImagesBySavedBy = (savedBy: string): number => {
-  const stmt = db.prepare('DELETE FROM images WHERE saved_by = ?');
-  const result = stmt.run(savedBy);
-  return result.changes;
+/**
+ * Moves every image a user has saved, in any scope, to the trash and returns their IDs.
+ */
+export const deleteImagesBySavedBy = (savedBy: string, deletedBy: string): string[] => {
+  return trashStatement('saved_by = ?')
+    .all(Date.now(), deletedBy, savedBy)
+    .map((row) => (row as { id: string }).id);
+};
+
+/**
+ * Lists trashed images in the given scopes, most recently deleted first.
+ */
+export const getTrashedImages = (userIds: string[]): ImageRecord[] => {
+  if (!userIds.length) return [];
+  const stmt = db.prepare(
+    `SELECT * FROM images WHERE status = 'deleted' AND user_id IN (${userIds.map(() => '?').join(', ')})
+    ORDER BY deleted_at DESC`
+  );
+  return stmt.all(...userIds) as ImageRecord[];
+};
+
+/**
+ * Takes images out of the trash. Images of a submission still awaiting review go back to
+ * pending; everything else becomes approved. Returns the IDs restored.
+ */
+export const restoreImages = (ids: string[]): string[] => {
+  const stmt = db.prepare(`
+    UPDATE images SET deleted_at = NULL, deleted_by = NULL,
+      status = CASE WHEN EXISTS (
+        SELECT 1 FROM submissions WHERE submissions.id = images.submission_id
+          AND submissions.status = 'pending'
+      ) THEN 'pending' ELSE 'approved' END
+    WHERE id = ? AND status = 'deleted'
+  `);
+  return db.transaction(() => ids.filter((id) => stmt.run(id).changes > 0))();
+};
+
+/**
+ * Permanently deletes images trashed before `before` and returns them. Their files can then be
+ * released with `purgeOrphanedBlobs`.
+ */
+export const purgeTrash = (before: number): ImageRecord[] => {
+  const stmt = db.prepare(
+    "DELETE FROM images WHERE status = 'deleted' AND deleted_at < ? RETURNING *"
+  );
+  return stmt.all(before) as ImageRecord[];
+};
+
+/**
+ * Saves all images of one message under a name in a single transaction. With `submit`,
+ * a pending submission is created for them and returned alongside.
+ */
+export const insertImages = db.transaction(
+  (
+    name: string,
+    blobs: BlobInfo[],
+    userId: string,
+    savedBy: string,
+    savedFrom: string | null = null,
+    submit = false
+  ): { images: ImageRecord[]; submission: SubmissionRecord | null } => {
+    const submission = submit ? createSubmission(name, savedBy, savedFrom) : null;
+    const images = blobs.map((blob) =>
+      insertImage(name, blob, userId, savedBy, savedFrom, submission?.id ?? null)
+    );
+    return { images, submission };
+  }
+);
+
+export const createSubmission = (
+  name: string,
+  submittedBy: string,
+  submittedFrom: string | null = null
+): SubmissionRecord => {
+  const stmt = db.prepare(`
+    INSERT INTO submissions (name, submitted_by, submitted_from, status, created_at)
+    VALUES (?, ?, ?, 'pending', ?)
+  `);
+  const result = stmt.run(name, submittedBy, submittedFrom, Date.now());
+  return getSubmissionById(Number(result.lastInsertRowid))!;
+};
+
+export const getSubmissionById = (id: number): SubmissionRecord | undefined => {
+  const stmt = db.prepare('SELECT * FROM submissions WHERE id = ?');
+  return stmt.get(id) as SubmissionRecord | undefined;
+};
+
+export const getPendingSubmissions = (): SubmissionRecord[] => {
+  const stmt = db.prepare("SELECT * FROM submissions WHERE status = 'pending' ORDER BY id ASC");
+  return stmt.all() as SubmissionRecord[];
+};
+
+export const getImagesBySubmission = (submissionId: number): ImageRecord[] => {
+  const stmt = db.prepare('SELECT * FROM images WHERE submission_id = ? ORDER BY created_at ASC');
+  return stmt.all(submissionId) as ImageRecord[];
+};
+
+/**
+ * Marks a pending submission as approved and makes its images visible.
+ * Returns the IDs of the images that became visible.
+ */
+export const approveSubmission = db.transaction((id: number, reviewedBy: string): string[] => {
+  db.prepare(
+    "UPDATE submissions SET status = 'approved', reviewed_by = ?, reviewed_at = ? WHERE id = ? AND status = 'pending'"
+  ).run(reviewedBy, Date.now(), id);
+  return db
+    .prepare(
+      "UPDATE images SET status = 'approved' WHERE submission_id = ? AND status = 'pending' RETURNING id"
+    )
+    .all(id)
+    .map((row) => (row as { id: string }).id);
+});
+
+/**
+ * Marks a pending submission as rejected and deletes its images.
+ * Returns the IDs of the images deleted.
+ */
+export const rejectSubmission = db.transaction(
+  (id: number, reviewedBy: string, reason: string | null = null): string[] => {
+    db.prepare(
+      "UPDATE submissions SET status = 'rejected', reviewed_by = ?, reviewed_at = ?, reason = ? WHERE id = ? AND status = 'pending'"
+    ).run(reviewedBy, Date.now(), reason, id);
+    return db
+      .prepare("DELETE FROM images WHERE submission_id = ? AND status = 'pending' RETURNING id")
+      .all(id)
+      .map((row) => (row as { id: string }).id);
+  }
+);
+
+export const hasName = (name: string, userId: string): boolean => {
+  const stmt = db.prepare(
+    "SELECT 1 FROM images WHERE name = ? AND user_id = ? AND status != 'deleted' LIMIT 1"
+  );
+  return stmt.get(name, userId) !== undefined;
+};
+
+/**
+ * Renames every image of a name within a scope, carrying its aliases over.
+ * Returns the IDs of the images renamed.
+ */
+export const renameImages = db.transaction(
+  (oldName: string, newName: string, userId: string): string[] => {
+    // Aliases move first so that the cleanup trigger does not drop them; an alias that
+    // pointed back at the old name would now alias itself
+    db.prepare('DELETE FROM aliases WHERE alias = ? AND name = ? AND user_id = ?').run(
+      newName,
+      oldName,
+      userId
+    );
+    db.prepare('UPDATE aliases SET name = ? WHERE name = ? AND user_id = ?').run(
+      newName,
+      oldName,
+      userId
+    );
+    return db
+      .prepare(
+        "UPDATE images SET name = ? WHERE name = ? AND user_id = ? AND status != 'deleted' RETURNING id"
+      )
+      .all(newName, oldName, userId)
+      .map((row) => (row as { id: string }).id);
+  }
+);
+
+/**
+ * Folds the images of `source` into `target` within a scope and keeps `source` as an alias.
+ * Returns the IDs of the images moved.
+ */
+export const mergeImages = db.transaction(
+  (source: string, target: string, userId: string, mergedBy: string): string[] => {
+    const ids = renameImages(source, target, userId);
+    addAlias(source, target, userId, mergedBy);
+    return ids;
+  }
+);
+
+export const getAlias = (alias: string, userId: string): AliasRecord | undefined => {
+  const stmt = db.prepare('SELECT * FROM aliases WHERE alias = ? AND user_id = ?');
+  return stmt.get(alias, userId) as AliasRecord | undefined;
+};
+
+export const getAliases = (name: string, userId: string): AliasRecord[] => {
+  const stmt = db.prepare(
+    'SELECT * FROM aliases WHERE name = ? AND user_id = ? ORDER BY created_at ASC'
+  );
+  return stmt.all(name, userId) as AliasRecord[];
+};
+
+export const addAlias = (alias: string, name: string, userId: string, createdBy: string): void => {
+  const stmt = db.prepare(`
+    INSERT INTO aliases (alias, name, user_id, created_at, created_by) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (alias, user_id) DO UPDATE SET name = excluded.name
+  `);
+  stmt.run(alias, name, userId, Date.now(), createdBy);
+};
+
+export const removeAlias = (alias: string, userId: string): boolean => {
+  const stmt = db.prepare('DELETE FROM aliases WHERE alias = ? AND user_id = ?');
+  const result = stmt.run(alias, userId);
+  return result.changes > 0;
+};
+
+/**
+ * Returns the name an alias points to within a scope, or the input itself if it is not an alias.
+ */
+export const resolveAlias = (name: string, userId: string): string =>
+  getAlias(name, userId)?.name ?? name;
+
+export const getTags = (imageId: string): string[] => {
+  const stmt = db.prepare('SELECT tag FROM image_tags WHERE image_id = ? ORDER BY tag ASC');
+  return (stmt.all(imageId) as { tag: string }[]).map((row) => row.tag);
+};
+
+export const addTags = (imageId: string, tags: string[]): number => {
+  const stmt = db.prepare('INSERT OR IGNORE INTO image_tags (image_id, tag) VALUES (?, ?)');
+  return tags.reduce((acc, tag) => acc + stmt.run(imageId, tag).changes, 0);
+};
+
+export const removeTags = (imageId: string, tags: string[]): number => {
+  const stmt = db.prepare('DELETE FROM image_tags WHERE image_id = ? AND tag = ?');
+  return tags.reduce((acc, tag) => acc + stmt.run(imageId, tag).changes, 0);
+};
+
+const runSearch = (
+  query: string,
+  scopeCondition: string,
+  scopeParams: (string | null)[]
+): ImageRecord[] => {
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (!terms.length) return [];
+  const longTerms = terms.filter((term) => [...term].length >= 3);
+  const shortTerms = terms.filter((term) => [...term].length < 3);
+  const conditions = [
+    ...(longTerms.length ? ['images_fts MATCH ?'] : []),
+    ...shortTerms.map(
+      () =>
+        "(images_fts.name LIKE ? ESCAPE '\\' OR aliases LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\')"
+    )
+  ];
+  const stmt = db.prepare(
+    `SELECT images.* FROM images_fts JOIN images ON images.rowid = images_fts.rowid
+    WHERE ${conditions.join(' AND ')} AND images.status = 'approved' AND ${scopeCondition}
+    ORDER BY ${longTerms.length ? 'images_fts.rank, ' : ''}images.use_count DESC, images.created_at DESC`
+  );
+  return stmt.all(
+    ...(longTerms.length
+      ? [longTerms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' ')]
+      : []),
+    ...shortTerms.flatMap((term) => {
+      const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+      return [pattern, pattern, pattern];
+    }),
+    ...scopeParams
+  ) as ImageRecord[];
+};
+
+/**
+ * Searches names, aliases and tags of the images visible in the given scopes.
+ * Every whitespace-separated term has to match; terms of three or more characters
+ * use the trigram index and are ranked, shorter ones fall back to substring matching.
+ */
+export const searchImages = (
+  query: string,
+  userId: string | null = null,
+  groupId: string | null = null,
+  includeGlobal = true,
+  includeLinked = false
+): ImageRecord[] =>
+  runSearch(
+    query,
+    scopeCondition('images.user_id', includeGlobal, includeLinked),
+    scopeParams(userId, groupId, includeLinked)
+  );
+
+/**
+ * Same as `searchImages`, but across every scope.
+ */
+export const searchAllImages = (query: string): ImageRecord[] => runSearch(query, '1 = 1', []);
+
+export interface ScopeStats {
+  user_id: string;
+  count: number;
+  total_uses: number;
+  total_size: number;
+}
+
+export const getScopeStats = (): ScopeStats[] => {
+  const stmt = db.prepare(`
+    SELECT images.user_id, COUNT(*) AS count, SUM(images.use_count) AS total_uses,
+      COALESCE(SUM(blobs.size), 0) AS total_size
+    FROM images LEFT JOIN blobs ON blobs.hash = images.blob_hash
+    WHERE images.status = 'approved'
+    GROUP BY images.user_id
+    ORDER BY total_size DESC
+  `);
+  return stmt.all() as ScopeStats[];
+};
+
+export interface QuotaOverride {
+  scope: string;
+  max_count: number | null;
+  max_size: number | null;
+  updated_by: string;
+  updated_at: number;
+}
+
+/**
+ * Counts every image in a scope, pending submissions included and the trash excluded,
+ * and sums their file sizes.
+ */
+export const getScopeUsage = (userId: string): { count: number; size: number } => {
+  const stmt = db.prepare(`
+    SELECT COUNT(*) AS count, COALESCE(SUM(blobs.size), 0) AS size
+    FROM images LEFT JOIN blobs ON blobs.hash = images.blob_hash
+    WHERE images.user_id = ? AND images.status != 'deleted'
+  `);
+  return stmt.get(userId) as { count: number; size: number };
+};
+
+export const getQuotaOverride = (scope: string): QuotaOverride | undefined => {
+  const stmt = db.prepare('SELECT * FROM quotas WHERE scope = ?');
+  return stmt.get(scope) as QuotaOverride | undefined;
+};
+
+export const setQuotaOverride = (
+  scope: string,
+  field: 'max_count' | 'max_size',
+  value: number | null,
+  updatedBy: string
+): void => {
+  const stmt = db.prepare(`
+    INSERT INTO quotas (scope, ${field}, updated_by, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (scope) DO UPDATE SET ${field} = excluded.${field},
+      updated_by = excluded.updated_by, updated_at = excluded.updated_at
+  `);
+  stmt.run(scope, value, updatedBy, Date.now());
+};
+
+export interface AuditLogRecord {
+  id: number;
+  action: string;
+  actor: string;
+  scope: string | null;
+  group_id: string | null;
+  name: string | null;
+  image_ids: string;
+  details: string | null;
+  created_at: number;
+}
+
+export interface AuditLogFilter {
+  actor?: string;
+  name?: string;
+  /** Entries run in this group or touching its `chat-<gid>` scope. */
+  groupId?: string;
+}
+
+export const insertAuditLog = (entry: Omit<AuditLogRecord, 'id' | 'created_at'>): void => {
+  const stmt = db.prepare(`
+    INSERT INTO audit_log (action, actor, scope, group_id, name, image_ids, details, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    entry.action,
+    entry.actor,
+    entry.scope,
+    entry.group_id,
+    entry.name,
+    entry.image_ids,
+    entry.details,
+    Date.now()
+  );
+};
+
+/**
+ * Returns one page of audit log entries matching the filter, newest first.
+ */
+export const queryAuditLog = (
+  filter: AuditLogFilter,
+  limit: number,
+  offset = 0
+): { entries: AuditLogRecord[]; total: number } => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.actor !== undefined) {
+    conditions.push('actor = ?');
+    params.push(filter.actor);
+  }
+  if (filter.name !== undefined) {
+    conditions.push('name = ?');
+    params.push(filter.name);
+  }
+  if (filter.groupId !== undefined) {
+    conditions.push('(group_id = ? OR scope = ?)');
+    params.push(filter.groupId, `chat-${filter.groupId}`);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const entries = db
+    .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as AuditLogRecord[];
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`)
+    .get(...params) as {
+    total: number;
+  };
+  return { entries, total };
+};
+
+export interface UseFilter {
+  since?: number;
+  groupId?: string;
+  userId?: string;
+  imageIds?: string[];
+}
+
+export interface UseRanking {
+  key: string;
+  scope: string | null;
+  uses: number;
+}
+
+/**
+ * Bumps an image's lifetime counter and records the use as an event.
+ */
+export const recordUse = db.transaction(
+  (image: ImageRecord, userId: string, groupId: string | null): void => {
+    incrementUseCount(image.id);
+    db.prepare(
+      'INSERT INTO use_events (image_id, name, scope, user_id, group_id, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(image.id, image.name, image.user_id, userId, groupId ?? '', Date.now());
+  }
+);
+
+/**
+ * Folds events older than `before` into per-day rows and deletes them.
+ * Returns the number of events rolled up.
+ */
+export const rollUpUseEvents = db.transaction((before: number): number => {
+  db.prepare(
+    `INSERT INTO use_daily (day, image_id, name, scope, user_id, group_id, count)
+    SELECT created_at - created_at % 86400000, image_id, name, scope, user_id, group_id, COUNT(*)
+    FROM use_events WHERE created_at < ?
+    GROUP BY created_at - created_at % 86400000, image_id, user_id, group_id
+    ON CONFLICT (day, image_id, user_id, group_id) DO UPDATE SET count = count + excluded.count`
+  ).run(before);
+  return db.prepare('DELETE FROM use_events WHERE created_at < ?').run(before).changes;
+});
+
+// Raw events and rollups as one relation; rollups count from the start of their day
+const useRows = `(
+  SELECT image_id, name, scope, user_id, group_id, 1 AS count, created_at AS at FROM use_events
+  UNION ALL
+  SELECT image_id, name, scope, user_id, group_id, count, day AS at FROM use_daily
+) AS uses`;
+
+const useConditions = (filter: UseFilter): [string, (string | number)[]] => {
+  const conditions = ['1 = 1'];
+  const params: (string | number)[] = [];
+  if (filter.since !== undefined) {
+    conditions.push('uses.at >= ?');
+    params.push(filter.since);
+  }
+  if (filter.groupId !== undefined) {
+    conditions.push('uses.group_id = ?');
+    params.push(filter.groupId);
+  }
+  if (filter.userId !== undefined) {
+    conditions.push('uses.user_id = ?');
+    params.push(filter.userId);
+  }
+  if (filter.imageIds !== undefined) {
+    conditions.push(`uses.image_id IN (${filter.imageIds.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...filter.imageIds);
+  }
+  return [conditions.join(' AND '), params];
+};
+
+export const countUses = (filter: UseFilter): number => {
+  const [where, params] = useConditions(filter);
+  const stmt = db.prepare(`SELECT COALESCE(SUM(count), 0) AS uses FROM ${useRows} WHERE ${where}`);
+  return (stmt.get(...params) as { uses: number }).uses;
+};
+
+/**
+ * Most used names, keyed by each image's current name and scope so renames keep their history.
+ */
+export const getTopNames = (filter: UseFilter, limit: number): UseRanking[] => {
+  const [where, params] = useConditions(filter);
+  const stmt = db.prepare(`
+    SELECT COALESCE(images.name, uses.name) AS key, COALESCE(images.user_id, uses.scope) AS scope,
+      SUM(uses.count) AS uses
+    FROM ${useRows} LEFT JOIN images ON images.id = uses.image_id
+    WHERE ${where}
+    GROUP BY 1, 2 ORDER BY uses DESC LIMIT ?
+  `);
+  return stmt.all(...params, limit) as UseRanking[];
+};
+
+export const getTopUsers = (filter: UseFilter, limit: number): UseRanking[] => {
+  const [where, params] = useConditions(filter);
+  const stmt = db.prepare(`
+    SELECT uses.user_id AS key, NULL AS scope, SUM(uses.count) AS uses
+    FROM ${useRows} WHERE ${where}
+    GROUP BY uses.user_id ORDER BY uses DESC LIMIT ?
+  `);
+  return stmt.all(...params, limit) as UseRanking[];
+};
+
+export const setPin = (userId: string, name: string, imageId: string): void => {
+  const stmt = db.prepare(`
+    INSERT INTO pins (user_id, name, image_id, created_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (user_id, name) DO UPDATE SET image_id = excluded.image_id,
+      created_at = excluded.created_at
+  `);
+  stmt.run(userId, name, imageId, Date.now());
+};
+
+export const removePin = (userId: string, name: string): boolean => {
+  const stmt = db.prepare('DELETE FROM pins WHERE user_id = ? AND name = ?');
+  return stmt.run(userId, name).changes > 0;
+};
+
+/**
+ * Returns whichever of the given images the user has pinned, if any.
+ */
+export const getPinnedImageId = (userId: string, imageIds: string[]): string | undefined => {
+  if (!imageIds.length) return;
+  const stmt = db.prepare(
+    `SELECT image_id FROM pins WHERE user_id = ? AND image_id IN (${imageIds.map(() => '?').join(', ')})
+    ORDER BY created_at DESC LIMIT 1`
+  );
+  return (stmt.get(userId, ...imageIds) as { image_id: string } | undefined)?.image_id;
+};
+
+export type AccessKind = 'user' | 'group';
+
+export interface BanRecord {
+  id: number;
+  kind: AccessKind;
+  target_id: string;
+  /** Group the ban applies in; empty for everywhere */
+  group_id: string;
+  reason: string | null;
+  banned_by: string;
+  created_at: number;
+  expires_at: number | null;
+}
+
+export const getAllowlistIds = (kind: AccessKind): string[] => {
+  const stmt = db.prepare('SELECT target_id FROM allowlist WHERE kind = ? ORDER BY created_at');
+  return (stmt.all(kind) as { target_id: string }[]).map((row) => row.target_id);
+};
+
+export const isAllowlisted = (kind: AccessKind, targetId: string): boolean => {
+  const stmt = db.prepare('SELECT 1 FROM allowlist WHERE kind = ? AND target_id = ?');
+  return stmt.get(kind, targetId) !== undefined;
 };
 
+export const addAllowlistEntry = (kind: AccessKind, targetId: string, addedBy: string): boolean => {
+  const stmt = db.prepare(
+    'INSERT OR IGNORE INTO allowlist (kind, target_id, added_by, created_at) VALUES (?, ?, ?, ?)'
+  );
+  return stmt.run(kind, targetId, addedBy, Date.now()).changes > 0;
+};
+
+export const removeAllowlistEntry = (kind: AccessKind, targetId: string): boolean => {
+  const stmt = db.prepare('DELETE FROM allowlist WHERE kind = ? AND target_id = ?');
+  return stmt.run(kind, targetId).changes > 0;
+};
+
+/**
+ * Creates a ban, or replaces the reason and expiry of an existing one for the same target.
+ */
+export const upsertBan = (ban: Omit<BanRecord, 'id' | 'created_at'>): BanRecord => {
+  const stmt = db.prepare(`
+    INSERT INTO bans (kind, target_id, group_id, reason, banned_by, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (kind, target_id, group_id) DO UPDATE SET reason = excluded.reason,
+      banned_by = excluded.banned_by, created_at = excluded.created_at,
+      expires_at = excluded.expires_at
+    RETURNING *
+  `);
+  return stmt.get(
+    ban.kind,
+    ban.target_id,
+    ban.group_id,
+    ban.reason,
+    ban.banned_by,
+    Date.now(),
+    ban.expires_at
+  ) as BanRecord;
+};
+
+export const removeBan = (kind: AccessKind, targetId: string, groupId = ''): boolean => {
+  const stmt = db.prepare('DELETE FROM bans WHERE kind = ? AND target_id = ? AND group_id = ?');
+  return stmt.run(kind, targetId, groupId).changes > 0;
+};
+
+/**
+ * Returns bans that have not expired, optionally only those applying in `groupId`.
+ */
+export const getActiveBans = (groupId?: string): BanRecord[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM bans WHERE (expires_at IS NULL OR expires_at > ?)
+    ${groupId !== undefined ? 'AND group_id = ?' : ''}
+    ORDER BY created_at DESC
+  `);
+  return stmt.all(Date.now(), ...(groupId !== undefined ? [groupId] : [])) as BanRecord[];
+};
+
+/**
+ * Finds an active ban keeping the user out of this chat: a ban on the user everywhere,
+ * on the user in this group, or on the group itself.
+ */
+export const findActiveBan = (userId: string, groupId: string | null): BanRecord | undefined => {
+  const stmt = db.prepare(`
+    SELECT * FROM bans WHERE (expires_at IS NULL OR expires_at > ?) AND (
+      (kind = 'user' AND target_id = ? AND (group_id = '' OR group_id = ?))
+      OR (kind = 'group' AND target_id = ?)
+    ) LIMIT 1
+  `);
+  return stmt.get(Date.now(), userId, groupId ?? '', groupId ?? '') as BanRecord | undefined;
+};
+
+export const deleteExpiredBans = (): number => {
+  const stmt = db.prepare('DELETE FROM bans WHERE expires_at IS NOT NULL AND expires_at <= ?');
+  return stmt.run(Date.now()).changes;
+};
+
+export interface LibraryLinkRecord {
+  owner_group: string;
+  target: string;
+  created_by: string;
+  created_at: number;
+}
+
+export interface CircleMemberRecord {
+  circle: string;
+  group_id: string;
+  added_by: string;
+  created_at: number;
+}
+
+export const addLibraryLink = (ownerGroup: string, target: string, createdBy: string): boolean => {
+  const stmt = db.prepare(
+    'INSERT OR IGNORE INTO library_links (owner_group, target, created_by, created_at) VALUES (?, ?, ?, ?)'
+  );
+  return stmt.run(ownerGroup, target, createdBy, Date.now()).changes > 0;
+};
+
+export const removeLibraryLink = (ownerGroup: string, target: string): boolean => {
+  const stmt = db.prepare('DELETE FROM library_links WHERE owner_group = ? AND target = ?');
+  return stmt.run(ownerGroup, target).changes > 0;
+};
+
+/**
+ * Links through which `ownerGroup` shares its library.
+ */
+export const getLibraryLinks = (ownerGroup: string): LibraryLinkRecord[] => {
+  const stmt = db.prepare('SELECT * FROM library_links WHERE owner_group = ? ORDER BY created_at');
+  return stmt.all(ownerGroup) as LibraryLinkRecord[];
+};
+
+/**
+ * Groups whose libraries `groupId` can read, excluding itself.
+ */
+export const getLinkedGroups = (groupId: string): string[] => {
+  const stmt = db.prepare(`SELECT DISTINCT scope FROM (${linkedScopes})`);
+  return (stmt.all(groupId, groupId) as { scope: string }[])
+    .map((row) => row.scope.slice(5))
+    .filter((id) => id !== groupId);
+};
+
+export const addCircleMember = (circle: string, groupId: string, addedBy: string): boolean => {
+  const stmt = db.prepare(
+    'INSERT OR IGNORE INTO circle_members (circle, group_id, added_by, created_at) VALUES (?, ?, ?, ?)'
+  );
+  return stmt.run(circle, groupId, addedBy, Date.now()).changes > 0;
+};
+
+export const removeCircleMember = (circle: string, groupId: string): boolean => {
+  const stmt = db.prepare('DELETE FROM circle_members WHERE circle = ? AND group_id = ?');
+  return stmt.run(circle, groupId).changes > 0;
+};
+
+export const getCircleMembers = (): CircleMemberRecord[] => {
+  const stmt = db.prepare('SELECT * FROM circle_members ORDER BY circle, created_at');
+  return stmt.all() as CircleMemberRecord[];
+};
+
+export const getPrivateContext = (userId: string): string | undefined => {
+  const stmt = db.prepare('SELECT group_id FROM private_contexts WHERE user_id = ?');
+  return (stmt.get(userId) as { group_id: string } | undefined)?.group_id;
+};
+
+export const setPrivateContext = (userId: string, groupId: string): void => {
+  const stmt = db.prepare(`
+    INSERT INTO private_contexts (user_id, group_id, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (user_id) DO UPDATE SET group_id = excluded.group_id,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(userId, groupId, Date.now());
+};
+
+export const deletePrivateContext = (userId: string): boolean => {
+  const stmt = db.prepare('DELETE FROM private_contexts WHERE user_id = ?');
+  return stmt.run(userId).changes > 0;
+};
+
+export const getGroupSetting = (groupId: string, key: string): string | undefined => {
+  const stmt = db.prepare('SELECT value FROM group_settings WHERE group_id = ? AND key = ?');
+  return (stmt.get(groupId, key) as { value: string } | undefined)?.value;
+};
+
+export const setGroupSetting = (groupId: string, key: string, value: string): void => {
+  const stmt = db.prepare(`
+    INSERT INTO group_settings (group_id, key, value) VALUES (?, ?, ?)
+    ON CONFLICT (group_id, key) DO UPDATE SET value = excluded.value
+  `);
+  stmt.run(groupId, key, value);
+};
+
+export const deleteGroupSetting = (groupId: string, key: string): boolean => {
+  const stmt = db.prepare('DELETE FROM group_settings WHERE group_id = ? AND key = ?');
+  const result = stmt.run(groupId, key);
+  return result.changes > 0;
+};
+
+export const getSchemaStatus = () => getMigrationStatus(db);
+
 export const closeDb = () => {
   db.close();
 };
@@ -0,0 +1,122 @@
+import * as OpenCC from 'opencc-js';
+import { pinyin } from 'pinyin-pro';
+
+export interface FuzzyMatch {
+  name: string;
+  score: number;
+}
+
+interface MatchKeys {
+  text: string;
+  pinyin: string;
+  initials: string;
+}
+
+const toSimplified = OpenCC.Converter({ from: 't', to: 'cn' });
+
+// Keys of stored names, least recently used first; queries are never cached
+const keyCache = new Map<string, MatchKeys>();
+const keyCacheLimit = 5000;
+
+/**
+ * Folds full-width characters, letter case and traditional characters into a comparable form.
+ */
+export const normalize = (text: string): string =>
+  toSimplified(text.normalize('NFKC').toLowerCase()).replace(/\s+/g, '');
+
+const computeKeys = (text: string): MatchKeys => {
+  const normalized = normalize(text);
+  return {
+    text: normalized,
+    pinyin: pinyin(normalized, { toneType: 'none', type: 'array', nonZh: 'consecutive' }).join(''),
+    initials: pinyin(normalized, {
+      pattern: 'first',
+      toneType: 'none',
+      type: 'array',
+      nonZh: 'consecutive'
+    }).join('')
+  };
+};
+
+const getNameKeys = (name: string): MatchKeys => {
+  const keys = keyCache.get(name) ?? computeKeys(name);
+  keyCache.delete(name);
+  keyCache.set(name, keys);
+  if (keyCache.size > keyCacheLimit) {
+    keyCache.delete(keyCache.keys().next().value!);
+  }
+  return keys;
+};
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent transpositions.
+ */
+const editDistance = (a: string, b: string): number => {
+  const x = [...a];
+  const y = [...b];
+  const d = Array.from({ length: x.length + 1 }, (_, i) =>
+    Array.from({ length: y.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= x.length; i++) {
+    for (let j = 1; j <= y.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && x[i - 1] === y[j - 2] && x[i - 2] === y[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[x.length][y.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const length = Math.max([...a].length, [...b].length);
+  return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+};
+
+const containment = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return longer.includes(shorter) ? 0.6 + (0.2 * shorter.length) / longer.length : 0;
+};
+
+const score = (query: MatchKeys, candidate: MatchKeys): number => {
+  if (query.text === candidate.text) return 1;
+  if (query.pinyin && query.pinyin === candidate.pinyin) return 0.95;
+  if (query.text === candidate.initials) return 0.9;
+  if (query.text === candidate.pinyin) return 0.9;
+  return Math.max(
+    containment(query.text, candidate.text),
+    similarity(query.text, candidate.text) * 0.8,
+    similarity(query.pinyin, candidate.pinyin) * 0.8,
+    similarity(query.text, candidate.initials) * 0.8
+  );
+};
+
+/**
+ * Ranks candidate names by how closely they match the query, best first.
+ */
+export const findSimilarNames = (
+  query: string,
+  candidates: string[],
+  limit = 5,
+  threshold = 0.5
+): FuzzyMatch[] => {
+  const queryKeys = computeKeys(query);
+  return [...new Set(candidates)]
+    .map((name) => ({ name, score: score(queryKeys, getNameKeys(name)) }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * A match is confident if it is strong on its own and clearly ahead of the runner-up.
+ */
+export const isConfidentMatch = (matches: FuzzyMatch[]): boolean =>
+  matches.length > 0 &&
+  matches[0].score >= 0.85 &&
+  (matches.length === 1 || matches[0].score - matches[1].score >= 0.1);
@@ -1,7 +1,7 @@
 import { NCWebsocket } from 'node-napcat-ts';
 import type { AllHandlers, ImageSegment, SendMessageSegment, TextSegment } from 'node-napcat-ts';
 import {
-  insertImage,
+  insertImages,
   closeDb,
   getImagesByUser,
   getImagesByNameAndUser,
@@ -9,39 +9,186 @@ import {
   clearImagesByNameAndUserId,
   deleteImageById,
   transferImagesOwnership,
-  incrementUseCount,
+  getBlobsToCopy,
+  copyImages,
+  recordUse,
+  countUses,
+  getTopNames,
+  getTopUsers,
+  type UseFilter,
   getAllImages,
-  getImagesBySavedBy,
-  deleteImagesBySavedBy
+  deleteImagesBySavedBy,
+  getSubmissionById,
+  getPendingSubmissions,
+  getImagesBySubmission,
+  approveSubmission,
+  rejectSubmission,
+  queryAuditLog,
+  getTrashedImages,
+  restoreImages,
+  type AuditLogFilter,
+  type BlobInfo,
+  type SubmissionRecord,
+  hasName,
+  renameImages,
+  mergeImages,
+  getAlias,
+  getAliases,
+  addAlias,
+  removeAlias,
+  resolveAlias,
+  getTags,
+  addTags,
+  removeTags,
+  searchImages,
+  getVisibleNames,
+  getSchemaStatus,
+  getScopeStats,
+  getImageSizes,
+  getStoredSize,
+  setPin,
+  removePin,
+  type AccessKind,
+  type BanRecord
 } from './db.js';
+import { findSimilarNames, isConfidentMatch } from './fuzzy.js';
 import {
-  deleteImage,
   downloadImage,
-  allowlist,
-  allowlistPath,
-  blocklist,
-  blocklistPath,
+  hashBlob,
+  storeBlob,
+  purgeOrphanedBlobs,
+  migrateLegacyStorage,
   random,
   formatBytes
 } from './utils.js';
-import { readFile, writeFile } from 'fs/promises';
+import {
+  canManageGroup,
+  canPerformGroupAction,
+  getMemberRole,
+  getPermissionDeniedMessage,
+  getRequiredRole,
+  groupActionLabels,
+  groupActions,
+  groupRoleLabels,
+  groupRoles,
+  isBotAdmin,
+  setRequiredRole,
+  type GroupAction,
+  type GroupRole
+} from './permissions.js';
+import { downloadPack, exportPack, importPack, type ImportMode } from './packs.js';
+import {
+  checkQuota,
+  formatQuota,
+  parseQuotaValue,
+  quotaFields,
+  quotaKindLabels,
+  getQuotaKind,
+  setQuotaLimit,
+  type QuotaField
+} from './quotas.js';
+import {
+  consumeRateLimit,
+  formatBucketSpec,
+  getRateLimitStatus,
+  groupRateLimitLevels,
+  parseBucketSpec,
+  pruneRateLimitBuckets,
+  rateLimitActionLabels,
+  rateLimitActions,
+  rateLimitLevelLabels,
+  rateLimitLevels,
+  rateLimitReaction,
+  setGroupRateLimit,
+  type RateLimitAction,
+  type RateLimitLevel
+} from './ratelimit.js';
+import { formatAuditEntry, recordAudit, type AuditEntry } from './audit.js';
+import { formatTimeLeft, getRetentionDays, purgeExpiredTrash } from './trash.js';
+import {
+  getWindowStart,
+  rollUpOldUses,
+  useWindowLabels,
+  useWindows,
+  type UseWindow
+} from './usage.js';
+import {
+  getSelectionStrategy,
+  parseSelectionStrategy,
+  selectImage,
+  selectionStrategies,
+  selectionStrategyLabels,
+  setSelectionStrategy
+} from './selection.js';
+import {
+  getChatSettings,
+  isGroupSettingOverridden,
+  setChatSetting,
+  settingDefinitions,
+  settingKeys,
+  type ChatSettings,
+  type SettingKey
+} from './settings.js';
+import {
+  getCircles,
+  getSharedFrom,
+  getSharedWith,
+  isValidCircleName,
+  joinCircle,
+  leaveCircle,
+  parseLinkTarget,
+  shareLibrary,
+  unshareLibrary,
+  type LinkTarget
+} from './links.js';
+import {
+  allow,
+  ban,
+  canAccess,
+  disallow,
+  formatBan,
+  getAllowlist,
+  getBans,
+  parseDuration,
+  pruneExpiredBans,
+  unban
+} from './access.js';
+import { getContextGroup, resetContext, switchContext } from './private-context.js';
+import { parseInlineMessage } from './inline.js';
+import { startServer } from './server/index.js';
+import { readFile } from 'fs/promises';
 import { resolve } from 'path';
-import config from '../config.json' with { type: 'json' };
-import { stat } from 'fs/promises';
-
-const napcat = new NCWebsocket(
-  {
-    baseUrl: config.napcatWs,
-    accessToken: config.napcatToken,
-    throwPromise: false,
-    reconnection: {
-      enable: true,
-      attempts: 10,
-      delay: 5000
-    }
-  },
-  false
-);
+import config, { ConfigError, reloadConfig, rootDir, watchConfig, type Config } from './config.js';
+
+migrateLegacyStorage();
+purgeOrphanedBlobs();
+purgeExpiredTrash();
+setInterval(purgeExpiredTrash, 60 * 60 * 1000).unref();
+rollUpOldUses();
+setInterval(rollUpOldUses, 60 * 60 * 1000).unref();
+setInterval(pruneRateLimitBuckets, 60 * 60 * 1000).unref();
+pruneExpiredBans();
+setInterval(pruneExpiredBans, 60 * 60 * 1000).unref();
+
+/**
+ * A NapCat connection that can be shut down for good: a plain `disconnect()` is undone
+ * by the built-in reconnection loop.
+ */
+class NapCatConnection extends NCWebsocket {
+  #closed = false;
+
+  close() {
+    this.#closed = true;
+    this.disconnect();
+  }
+
+  override async reconnect() {
+    if (!this.#closed) await super.reconnect();
+  }
+}
+
+// Replaced when napcatWs or napcatToken change; assigned once the handlers below exist
+let napcat: NapCatConnection;
 
 // Small generic signallable promise: call `signal()` to resolve the promise.
 const createSignallable = <T>() => {
@@ -71,7 +218,7 @@ const getGroupName = async (id: number) => {
 
 const getEmoji = async (image: ImageRecord, showName = false) => {
   try {
-    const fullPath = resolve(process.cwd(), image.file_path);
+    const fullPath = resolve(rootDir, image.file_path);
     const buffer = await readFile(fullPath);
     const base64 = buffer.toString('base64');
     return {
@@ -99,9 +246,32 @@ const getEmojiList = async (
   groupId: number | null = null,
   count?: number,
   page?: number,
-  pageSize = 20
+  pageSize = 20,
+  showImageName = false
 ): Promise<SendMessageSegment[]> => {
   const totalUses = images.reduce((sum, img) => sum + img.use_count, 0);
+  const scopes = new Map(images.map((img) => [`${img.user_id}/${img.name}`, img]));
+  const aliases = showImageName
+    ? []
+    : [
+        ...new Set(
+          [...scopes.values()].flatMap((img) =>
+            getAliases(img.name, img.user_id).map((a) => a.alias)
+          )
+        )
+      ].filter((alias) => alias !== name);
+  const chatScopes = new Set(
+    images.filter((img) => img.user_id.startsWith('chat-')).map((img) => img.user_id)
+  );
+  const scopeLabel = images.every((i) => i.user_id === 'global')
+    ? '全局, '
+    : chatScopes.size === 1 && images.every((i) => chatScopes.has(i.user_id))
+      ? [...chatScopes][0] === `chat-${groupId}`
+        ? '群聊, '
+        : `来自群 ${await getGroupName(parseInt([...chatScopes][0].slice(5)))}, `
+      : chatScopes.size && images.every((i) => i.user_id.startsWith('chat-'))
+        ? '群聊, '
+        : '';
   let saveInfo = '';
   const imagesToShow =
     page !== undefined ? images.slice((page - 1) * pageSize, page * pageSize) : images;
@@ -109,8 +279,15 @@ const getEmojiList = async (
     await Promise.all(
       imagesToShow.map(async (img, i) => {
         const imgSegment = await getEmoji(img);
+        // Images shared from another group's library name their group
         const ownershipLabel =
-          img.user_id === 'global' ? ' (全局)' : img.user_id.startsWith('chat-') ? ' (群聊)' : '';
+          img.user_id === 'global'
+            ? ' (全局)'
+            : img.user_id.startsWith('chat-')
+              ? img.user_id === `chat-${groupId}`
+                ? ' (群聊)'
+                : ` (来自群 ${await getGroupName(parseInt(img.user_id.slice(5)))})`
+              : '';
         const useCountInfo = ` (${img.use_count} 次)`;
         const savedById = parseInt(img.saved_by);
         const savedFromId = img.saved_from ? parseInt(img.saved_from) : null;
@@ -123,13 +300,16 @@ const getEmojiList = async (
             ? `于群 ${await getGroupName(savedFromId)}`
             : '';
         if (i === 0) saveInfo = `${savedByInfo}${savedFromInfo}`;
+        const nameInfo = showImageName ? ` ${img.name}` : '';
+        const tags = showIndex ? getTags(img.id) : [];
+        const tagsInfo = tags.length ? ` [${tags.map((t) => `#${t}`).join(' ')}]` : '';
 
         return showIndex
           ? [
               {
                 type: 'text',
                 data: {
-                  text: `${(page ? (page - 1) * pageSize : 0) + i + 1}.${ownershipLabel}${useCountInfo}${savedByInfo}${savedFromInfo}\n`
+                  text: `${(page ? (page - 1) * pageSize : 0) + i + 1}.${nameInfo}${ownershipLabel}${useCountInfo}${tagsInfo}${savedByInfo}${savedFromInfo}\n`
                 }
               } satisfies TextSegment,
               imgSegment
@@ -144,7 +324,7 @@ const getEmojiList = async (
       type: 'text',
       data: {
         text:
-          `「${name}」(${images.every((i) => i.user_id === 'global') ? '全局, ' : images.every((i) => i.user_id.startsWith('chat-')) ? '群聊, ' : ''}共 ${count !== undefined ? count : images.length} 个, 使用 ${totalUses} 次)` +
+          `「${name}」(${scopeLabel}${aliases.length ? `别名 ${aliases.join('、')}, ` : ''}共 ${count !== undefined ? count : images.length} 个, 使用 ${totalUses} 次)` +
           (page ? ` (第 ${page} 页, 共 ${Math.ceil(images.length / pageSize)} 页)` : '') +
           (saveInfo ? `\n${saveInfo}` : '') +
           `\n`
@@ -154,13 +334,6 @@ const getEmojiList = async (
   ];
 };
 
-const deleteEmoji = (context: AllHandlers['message'], image: ImageRecord) => {
-  const userImages = getImagesByUser(context.user_id.toString());
-  if (!userImages.find((img) => img.file_path === image.file_path)) {
-    deleteImage(image.file_path);
-  }
-};
-
 const send = async (context: AllHandlers['message'], ...segments: SendMessageSegment[]) => {
   if (context.message_type === 'group') {
     return await napcat.send_msg({
@@ -175,32 +348,145 @@ const send = async (context: AllHandlers['message'], ...segments: SendMessageSeg
   }
 };
 
-const socketClose = createSignallable<void>();
+/**
+ * Takes a rate-limit token for the sender. Over-limit messages are dropped, acknowledged with
+ * a reaction in groups unless `rateLimits.onLimit` is `ignore`. Bot admins are exempt.
+ */
+const isRateLimited = async (context: AllHandlers['message'], action: RateLimitAction) => {
+  if (isBotAdmin(context.user_id)) return false;
+  const groupId = context.message_type === 'group' ? context.group_id : null;
+  const level = consumeRateLimit(action, context.user_id, groupId);
+  if (!level) return false;
+  console.log(`[qmoji] Rate limited ${action} by ${context.user_id} (${level})`);
+  if (groupId !== null && (config.rateLimits?.onLimit ?? 'react') === 'react') {
+    await napcat.set_msg_emoji_like({
+      message_id: context.message_id,
+      emoji_id: rateLimitReaction
+    });
+  }
+  return true;
+};
 
-napcat.on('socket.open', () => {
-  console.log('[NapCat] Connected.');
-});
+/**
+ * Tells users how to undo a deletion with the `command` utils prefix: by ID prefix,
+ * or by name within the scope `userId`.
+ */
+const trashNotice = (command: string, target: string, userId?: string) =>
+  `\n已移至回收站，${getRetentionDays()} 天内可使用 ${command} restore ${target}` +
+  `${userId === 'global' ? ' global' : userId?.startsWith('chat-') ? ' group' : ''} 恢复。`;
 
-napcat.on('socket.close', () => {
-  console.log('[NapCat] Disconnected.');
-  try {
-    socketClose.signal(undefined);
-  } catch {
-    // ignore if already resolved
+/**
+ * Summarises how often a set of images was used per window and, in groups, by whom.
+ */
+const getUseBreakdown = async (
+  imageIds: string[],
+  groupId: number | null
+): Promise<TextSegment> => {
+  const counts = useWindows.map(
+    (window) =>
+      `${useWindowLabels[window]} ${countUses({ imageIds, since: getWindowStart(window) })} 次`
+  );
+  const topUsers =
+    groupId !== null
+      ? await Promise.all(
+          getTopUsers({ imageIds, groupId: groupId.toString() }, 3).map(
+            async (user) => `${await getUserName(parseInt(user.key))} ${user.uses} 次`
+          )
+        )
+      : [];
+  return {
+    type: 'text',
+    data: {
+      text:
+        `使用统计：${counts.join('，')}` +
+        (topUsers.length ? `\n本群最常使用：${topUsers.join('、')}` : '')
+    }
+  };
+};
+
+const getSubmissionSummary = async (
+  submission: SubmissionRecord
+): Promise<SendMessageSegment[]> => {
+  const images = getImagesBySubmission(submission.id);
+  const submittedBy = await getUserName(parseInt(submission.submitted_by));
+  const submittedFrom = submission.submitted_from
+    ? ` 于群 ${await getGroupName(parseInt(submission.submitted_from))}`
+    : '';
+  return [
+    {
+      type: 'text',
+      data: {
+        text: `投稿 #${submission.id}「${submission.name}」(共 ${images.length} 个)\n由 ${submittedBy}${submittedFrom} 提交\n`
+      }
+    },
+    ...(await Promise.all(images.map((img) => getEmoji(img, true)))),
+    {
+      type: 'text',
+      data: {
+        text: `\n使用 ${config.prefixes.utils[0]} approve ${submission.id} 通过，或 ${config.prefixes.utils[0]} reject ${submission.id} [理由] 拒绝`
+      }
+    }
+  ];
+};
+
+const notifyAdmins = async (submission: SubmissionRecord) => {
+  const message = await getSubmissionSummary(submission);
+  for (const admin of config.admins ?? []) {
+    try {
+      await napcat.send_msg({ user_id: admin, message });
+    } catch (err) {
+      console.error(`[qmoji] Failed to notify admin ${admin}:`, err);
+    }
   }
-});
+};
 
-napcat.on('message', async (context: AllHandlers['message']) => {
+const notifySubmitter = async (submission: SubmissionRecord, text: string) => {
   try {
-    if (blocklist.users?.includes(context.user_id)) {
-      return;
-    }
-    if (
-      !allowlist.users?.includes(context.user_id) &&
-      (!('group_id' in context) || !allowlist.groups?.includes(context.group_id))
-    ) {
-      return;
+    if (submission.submitted_from) {
+      await napcat.send_msg({
+        group_id: parseInt(submission.submitted_from),
+        message: [
+          { type: 'at', data: { qq: submission.submitted_by } },
+          { type: 'text', data: { text: ` ${text}` } }
+        ]
+      });
+    } else {
+      await napcat.send_msg({
+        user_id: parseInt(submission.submitted_by),
+        message: [{ type: 'text', data: { text } }]
+      });
     }
+  } catch (err) {
+    console.error(`[qmoji] Failed to notify submitter of submission #${submission.id}:`, err);
+  }
+};
+
+const socketClose = createSignallable<void>();
+
+/** Whether a message invokes qmoji: a command, a save or use prefix, or an inline trigger. */
+const isAddressedToBot = (
+  message: AllHandlers['message']['message'],
+  command: string,
+  settings: ChatSettings
+) =>
+  settings.prefixes.utils.includes(command) ||
+  [
+    ...settings.prefixes.save,
+    ...settings.prefixes.groupSave,
+    ...settings.prefixes.globalSave,
+    ...settings.prefixes.use
+  ].includes(command[0]) ||
+  (settings.inlineTriggers &&
+    message.some(
+      (m) =>
+        m.type === 'text' && settings.prefixes.use.some((prefix) => m.data.text.includes(prefix))
+    ));
+
+const handleMessage = async (context: AllHandlers['message']) => {
+  try {
+    const isGroupChat = context.message_type === 'group';
+    // Private chats act on a group's library after switching to it with `qmoji ctx`
+    let libraryGroupId = isGroupChat ? context.group_id : getContextGroup(context.user_id);
     const message = context.message.find((m) => m.type === 'text');
     if (message) {
       const text = message.data.text;
@@ -211,9 +497,37 @@ napcat.on('message', async (context: AllHandlers['message']) => {
       if (!segments.length) return;
       const command = segments[0];
       if ([...command].every((char) => char === command[0])) return;
-      const isAdmin = config.admins?.includes(context.user_id);
-      const isGroupChat = context.message_type === 'group';
-      if (config.prefixes.utils.includes(command)) {
+      const isAdmin = isBotAdmin(context.user_id);
+      let settings = getChatSettings(libraryGroupId);
+      // Switching context stays possible for members of allowlisted groups
+      const isContextSwitch =
+        !isGroupChat && settings.prefixes.utils.includes(command) && segments[1] === 'ctx';
+      // Membership can change after switching, so it is checked again whenever the context is used
+      if (
+        !isGroupChat &&
+        libraryGroupId !== null &&
+        !isContextSwitch &&
+        !isAdmin &&
+        isAddressedToBot(context.message, command, settings) &&
+        !(await getMemberRole(napcat, libraryGroupId, context.user_id))
+      ) {
+        resetContext(context.user_id);
+        await send(context, {
+          type: 'text',
+          data: { text: `你已不是群 ${libraryGroupId} 的成员，已切换回个人表情库。` }
+        });
+        libraryGroupId = null;
+        settings = getChatSettings(null);
+      }
+      const hasAccess = canAccess(context.user_id, libraryGroupId);
+      if (!hasAccess && !isContextSwitch) return;
+      const audit = (entry: Omit<AuditEntry, 'actor' | 'groupId'>) =>
+        recordAudit({
+          ...entry,
+          actor: context.user_id,
+          groupId: isGroupChat ? context.group_id : null
+        });
+      if (settings.prefixes.utils.includes(command)) {
         const subcommand = segments[1] || '';
         if (!subcommand) {
           await send(context, {
@@ -222,271 +536,1040 @@ napcat.on('message', async (context: AllHandlers['message']) => {
               text:
                 `${command} list [页数] [p/私/自][c/群][g/公/全] - 列出已保存的表情\n` +
                 `${command} {clear/cl} <名称> - 清除指定名称的所有个人表情\n` +
-                `${command} {cleargroup/cgr} <名称> - 清除指定名称的所有群聊表情\n` +
+                `${command} {cleargroup/cgr} <名称> - 清除指定名称的所有群聊表情 (受本群权限设置限制)\n` +
                 `${command} {remove/delete/rm} <名称> <序号> - 删除指定名称的某个表情\n` +
+                `${command} trash [页数] - 查看回收站中已删除的表情\n` +
+                `${command} restore <编号/名称> [personal/group/global] - 从回收站恢复表情\n` +
                 `${command} {transfer/mv} {group/global} <名称> [序号] - 转移指定名称的 (某个) 个人表情\n` +
+                `${command} {copy/cp} <名称> [序号] [to personal/group] - 将可见的表情复制到个人或群聊层级\n` +
+                `${command} {transfer/mv} user {@用户/QQ号} <名称> [序号] [group/global] - 将群聊或全局表情转移给指定用户 (仅管理员)\n` +
+                `${command} rename <原名称> <新名称> [personal/group/global] - 重命名表情\n` +
+                `${command} merge <名称A> <名称B> [personal/group/global] - 将名称A的表情并入名称B\n` +
+                `${command} alias <名称> <别名> [personal/group/global] - 为表情添加别名\n` +
+                `${command} unalias <别名> [personal/group/global] - 移除别名\n` +
+                `${command} tag <名称> <序号> [+标签] [-标签] - 查看或编辑某个表情的标签\n` +
+                `${command} {search/find} <关键词> [页数] - 按名称、别名和标签搜索表情\n` +
+                `${command} export [personal/group/global] [名称] - 导出表情包压缩包\n` +
+                `${command} import [personal/group/global] [skip/merge] - 导入附带或回复的表情包压缩包 (重名时跳过或合并)\n` +
                 `${command} enable - 在当前群启用 qmoji (允许所有群成员使用)\n` +
                 `${command} disable - 在当前群禁用 qmoji (仅白名单中的用户可用)\n` +
-                `${command} allowlist [add/remove] - 管理白名单 (仅管理员)\n` +
-                `${command} blocklist [add/remove] - 管理黑名单 (仅管理员)\n` +
-                `${command} <名称> [页数] - 列出指定名称的所有表情\n` +
-                `保存个人表情：在回复的消息中使用 ${config.prefixes.save[0]}<名称> 进行保存\n` +
-                `保存群聊表情：在回复的消息中使用 ${config.prefixes.groupSave[0]}<名称> 进行保存\n` +
-                `保存全局表情：在回复的消息中使用 ${config.prefixes.globalSave[0]}<名称> 进行保存\n` +
-                `使用表情：在消息中使用 ${config.prefixes.use[0]}<名称> 进行发送`
+                `${command} {permission/perm} [操作] [角色] - 查看或设置本群管理群聊表情所需的角色 (仅群主/管理员)\n` +
+                `${command} quota [@用户/group/global] - 查看自己 (或指定对象) 的表情配额与用量\n` +
+                `${command} quota set {count/size} <值/unlimited/default> {@用户/group/global} - 设置配额 (仅管理员)\n` +
+                `${command} ratelimit - 查看发送与保存的频率限制及剩余次数\n` +
+                `${command} ratelimit set {use/save} {user/group} <容量>/<每分钟恢复数>|off|default - 设置本群频率限制 (仅群主/管理员)\n` +
+                `${command} allowlist [add/remove] {@用户/QQ号/group <群号>} - 管理白名单 (仅管理员)\n` +
+                `${command} blocklist [add/remove] {@用户/QQ号/group <群号>} [时长] [理由] - 管理黑名单 (仅管理员)\n` +
+                `${command} ban [@用户/QQ号] [时长] [理由] - 查看本群黑名单或在本群封禁用户 (仅群主/群管理员)\n` +
+                `${command} unban {@用户/QQ号} - 解除本群的封禁 (仅群主/群管理员)\n` +
+                `${command} log [@用户/名称] [页数] - 查看表情库的操作日志 (管理员可查看全部，群主/群管理员可查看本群)\n` +
+                `${command} reload - 重新加载配置文件 (仅管理员)\n` +
+                `${command} migrate status - 查看数据库迁移状态 (仅管理员)\n` +
+                `${command} review - 查看待审核的全局表情投稿 (仅管理员)\n` +
+                `${command} approve <编号> - 通过全局表情投稿 (仅管理员)\n` +
+                `${command} reject <编号> [理由] - 拒绝全局表情投稿 (仅管理员)\n` +
+                `${command} top [day/week/month/all] [group/global/me] - 查看表情与用户的使用排行\n` +
+                `${command} <名称> [页数] - 列出指定名称的所有表情及使用统计\n` +
+                `${command} config [设置项] [值/default] - 查看或修改本群的前缀等设置 (仅群主/群管理员可修改)\n` +
+                `${command} ctx [群号/off] - 在私聊中切换到指定群的表情库，或切换回个人表情库\n` +
+                `${command} link [add/remove] {<群号>/circle <名称>} - 查看或管理本群表情库的共享 (仅群主/群管理员可修改)\n` +
+                `${command} circle [add/remove] <名称> <群号> - 管理用于共享表情库的群聊圈子 (仅管理员)\n` +
+                `${command} pin <名称> <序号> - 置顶指定名称的某个表情\n` +
+                `${command} unpin <名称> - 取消置顶\n` +
+                `${command} selection [${selectionStrategies.join('/')}] - 查看或设置本群的表情选取方式 (仅群主/群管理员可设置)\n` +
+                `保存个人表情：在回复的消息中使用 ${settings.prefixes.save[0]}<名称> 进行保存\n` +
+                `保存群聊表情：在回复的消息中使用 ${settings.prefixes.groupSave[0]}<名称> 进行保存\n` +
+                `保存全局表情：在回复的消息中使用 ${settings.prefixes.globalSave[0]}<名称> 进行投稿 (需管理员审核)\n` +
+                `使用表情：在消息中使用 ${settings.prefixes.use[0]}<名称> [序号/选取方式] 进行发送\n` +
+                `多个或行内表情：本群开启 ${command} config inline on 后，消息中的每个 ${settings.prefixes.use[0]}<名称> 都会被替换为表情`
             }
           });
           return;
         }
         if ((subcommand === 'enable' || subcommand === 'disable') && isGroupChat) {
           const isEnable = subcommand === 'enable';
-          const exists = allowlist.groups?.includes(context.group_id);
-          if (isEnable && exists) {
+          const changed = isEnable
+            ? allow('group', context.group_id, context.user_id.toString())
+            : disallow('group', context.group_id);
+          if (!changed) {
             await send(context, {
               type: 'text',
-              data: { text: `本群已在白名单中，无需重复添加。` }
+              data: {
+                text: isEnable ? `本群已在白名单中，无需重复添加。` : `本群不在白名单中，无需移除。`
+              }
             });
             return;
           }
-          if (!isEnable && !exists) {
+          await send(context, {
+            type: 'text',
+            data: { text: isEnable ? `已将本群添加到白名单。` : `已将本群从白名单中移除。` }
+          });
+          audit({
+            action: isEnable ? 'allowlist.add' : 'allowlist.remove',
+            details: { target: `group:${context.group_id}` }
+          });
+          console.log(`[qmoji] Updated group allowlist: ${await getGroupName(context.group_id)}`);
+          return;
+        }
+        if ((subcommand === 'permission' || subcommand === 'perm') && isGroupChat) {
+          const action = segments[2] as GroupAction | undefined;
+          const role = segments[3] as GroupRole | undefined;
+          if (!action) {
             await send(context, {
               type: 'text',
-              data: { text: `本群不在白名单中，无需移除。` }
+              data: {
+                text:
+                  '本群权限设置\n' +
+                  groupActions
+                    .map(
+                      (a) =>
+                        `- ${groupActionLabels[a]}群聊表情 (${a})：${groupRoleLabels[getRequiredRole(context.group_id, a)]}及以上`
+                    )
+                    .join('\n')
+              }
             });
             return;
           }
-          if (!allowlist.groups) {
-            allowlist.groups = [];
-          }
-          if (isEnable) {
-            allowlist.groups.push(context.group_id);
+          if (!groupActions.includes(action) || !role || !groupRoles.includes(role)) {
             await send(context, {
               type: 'text',
-              data: { text: `已将本群添加到白名单。` }
+              data: {
+                text: `用法：${command} ${subcommand} {${groupActions.join('/')}} {${groupRoles.join('/')}}`
+              }
             });
-          } else {
-            allowlist.groups = allowlist.groups.filter((id) => id !== context.group_id);
+            return;
+          }
+          if (!(await canManageGroup(napcat, context))) {
             await send(context, {
               type: 'text',
-              data: { text: `已将本群从白名单中移除。` }
+              data: { text: `权限不足：仅群主或管理员可修改本群权限设置。` }
             });
+            return;
           }
-          await writeFile(allowlistPath, JSON.stringify(allowlist), 'utf-8');
-          console.log(`[qmoji] Updated group allowlist: ${await getGroupName(context.group_id)}`);
+          setRequiredRole(context.group_id, action, role);
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `已将本群${groupActionLabels[action]}群聊表情所需的角色设为${groupRoleLabels[role]}及以上。`
+            }
+          });
+          console.log(
+            `[qmoji] Group ${context.group_id} permission ${action} set to ${role} by ${context.user_id}`
+          );
           return;
         }
-        if (subcommand === 'allowlist' && isAdmin) {
-          const operation = segments[2] || '';
-          if (!operation) {
+        if (subcommand === 'quota') {
+          const usage =
+            `用法：${command} ${subcommand} [@用户/QQ号/group [群号]/global]\n` +
+            `${command} ${subcommand} set {${quotaFields.join('/')}} <值/unlimited/default> {@用户/QQ号/group [群号]/global}`;
+          const mention = context.message.find((m) => m.type === 'at');
+          const parseScope = (args: string[]): string | null => {
+            if (mention) return mention.data.qq;
+            if (args[0] === 'global') return 'global';
+            if (args[0] === 'group') {
+              if (args[1] && /^\d+$/.test(args[1])) return `chat-${args[1]}`;
+              return libraryGroupId !== null ? `chat-${libraryGroupId}` : null;
+            }
+            return args[0] && /^\d+$/.test(args[0]) ? args[0] : null;
+          };
+          const describeScope = async (scope: string) =>
+            scope === 'global'
+              ? '全局'
+              : scope.startsWith('chat-')
+                ? `群聊 ${await getGroupName(parseInt(scope.slice(5)))}`
+                : `用户 ${await getUserName(parseInt(scope))}`;
+
+          if (segments[2] === 'set') {
+            if (!isAdmin) {
+              await send(context, {
+                type: 'text',
+                data: { text: `权限不足：仅管理员可设置配额。` }
+              });
+              return;
+            }
+            const field = segments[3] as QuotaField | undefined;
+            const raw = segments[4];
+            const scope = parseScope(segments.slice(5));
+            const value =
+              raw === 'unlimited'
+                ? Infinity
+                : raw === 'default'
+                  ? null
+                  : field && quotaFields.includes(field) && raw
+                    ? (parseQuotaValue(field, raw) ?? undefined)
+                    : undefined;
+            if (!field || !quotaFields.includes(field) || value === undefined || !scope) {
+              await send(context, { type: 'text', data: { text: usage } });
+              return;
+            }
+            setQuotaLimit(scope, field, value, context.user_id.toString());
             await send(context, {
               type: 'text',
               data: {
                 text:
-                  'qmoji 白名单\n' +
-                  `用户：\n${allowlist.users ? (await Promise.all(allowlist.users.map(async (id) => `- ${await getUserName(id)}`))).join('\n') : '无'}\n` +
-                  `群聊：\n${allowlist.groups ? (await Promise.all(allowlist.groups.map(async (id) => `- ${await getGroupName(id)}`))).join('\n') : '无'}`
+                  `已将${await describeScope(scope)}的${field === 'count' ? '数量' : '空间'}配额` +
+                  (value === null
+                    ? '恢复为默认值。'
+                    : `设为${value === Infinity ? '无限制' : field === 'count' ? ` ${value} 个` : ` ${formatBytes(value)}`}。`) +
+                  `\n${formatQuota(scope)}`
               }
             });
+            console.log(`[qmoji] Quota ${field} of ${scope} set to ${raw} by ${context.user_id}`);
+            return;
+          }
+
+          const target = segments[2] || mention ? parseScope(segments.slice(2)) : null;
+          if ((segments[2] || mention) && !target) {
+            await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          if (target && !isAdmin && target !== context.user_id.toString()) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅管理员可查看他人的配额。` }
+            });
             return;
           }
-          if (operation !== 'add' && operation !== 'remove') {
+          const scopes = target
+            ? [target]
+            : [
+                context.user_id.toString(),
+                ...(libraryGroupId !== null ? [`chat-${libraryGroupId}`] : []),
+                'global'
+              ];
+          const sections = await Promise.all(
+            scopes.map(
+              async (scope) =>
+                `${target ? await describeScope(scope) : quotaKindLabels[getQuotaKind(scope)]}表情配额\n${formatQuota(scope)}`
+            )
+          );
+          await send(context, { type: 'text', data: { text: sections.join('\n\n') } });
+          return;
+        }
+        if (subcommand === 'ratelimit') {
+          if (segments[2] === 'set') {
+            const action = segments[3] as RateLimitAction | undefined;
+            const level = segments[4] as RateLimitLevel | undefined;
+            const raw = segments[5];
+            const spec =
+              raw === 'off' ? 'off' : raw === 'default' ? null : raw ? parseBucketSpec(raw) : null;
+            if (
+              !isGroupChat ||
+              !action ||
+              !rateLimitActions.includes(action) ||
+              !level ||
+              !groupRateLimitLevels.includes(level) ||
+              (spec === null && raw !== 'default')
+            ) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `用法：${command} ${subcommand} set {${rateLimitActions.join('/')}} {${groupRateLimitLevels.join('/')}} <容量>/<每分钟恢复数>|off|default (仅限群聊)`
+                }
+              });
+              return;
+            }
+            if (!(await canManageGroup(napcat, context))) {
+              await send(context, {
+                type: 'text',
+                data: { text: `权限不足：仅群主或管理员可修改本群频率限制。` }
+              });
+              return;
+            }
+            setGroupRateLimit(context.group_id, action, level, spec);
             await send(context, {
               type: 'text',
               data: {
-                text: `用法：${command} ${subcommand} [add/remove]`
+                text:
+                  `已将本群的${rateLimitActionLabels[action]}频率限制 (${rateLimitLevelLabels[level]}) ` +
+                  (spec === null
+                    ? '恢复为默认值。'
+                    : `设为：${formatBucketSpec(spec === 'off' ? null : spec)}。`)
               }
             });
+            console.log(
+              `[qmoji] Group ${context.group_id} rate limit ${action}.${level} set to ${raw} by ${context.user_id}`
+            );
             return;
           }
-          const mention = context.message.find((m) => m.type === 'at');
-          if (!mention) {
+          const groupId = isGroupChat ? context.group_id : null;
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `频率限制${isAdmin ? ' (你是管理员，不受限制)' : ''}\n` +
+                rateLimitActions
+                  .map((action) => {
+                    const status = getRateLimitStatus(action, context.user_id, groupId);
+                    return (
+                      `${rateLimitActionLabels[action]}：\n` +
+                      rateLimitLevels
+                        .filter((level) => level !== 'group' || isGroupChat)
+                        .map((level) => {
+                          const bucket = status[level];
+                          return ` - ${rateLimitLevelLabels[level]}：${bucket ? `剩余 ${bucket.tokens}/${bucket.spec.capacity}，每分钟恢复 ${bucket.spec.perMinute}` : '不限制'}`;
+                        })
+                        .join('\n')
+                    );
+                  })
+                  .join('\n')
+            }
+          });
+          return;
+        }
+        if (subcommand === 'selection' && isGroupChat) {
+          const raw = segments[2];
+          const usage = `用法：${command} ${subcommand} {${selectionStrategies.join('/')}}`;
+          if (!raw) {
             await send(context, {
               type: 'text',
               data: {
-                text: `请提及需要操作的用户。用法：${command} ${subcommand} ${operation} @用户`
+                text: `本群表情选取方式：${selectionStrategyLabels[getSelectionStrategy(context.group_id)]}\n${usage}`
               }
             });
             return;
           }
-          const targetId = parseInt(mention.data.qq);
-          const target = await getUserName(targetId);
-          if (isNaN(targetId)) {
+          const strategy = parseSelectionStrategy(raw);
+          if (!strategy) {
+            await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          if (!(await canManageGroup(napcat, context))) {
             await send(context, {
               type: 'text',
-              data: { text: `无法识别提及的用户。` }
+              data: { text: `权限不足：仅群主或管理员可修改本群表情选取方式。` }
             });
             return;
           }
-          if (operation === 'add') {
-            if (allowlist.users?.includes(targetId)) {
-              await send(context, {
-                type: 'text',
-                data: { text: `用户 ${target} 已在白名单中。` }
-              });
-              return;
-            }
-            if (!allowlist.users) {
-              allowlist.users = [];
-            }
-            allowlist.users.push(targetId);
+          setSelectionStrategy(context.group_id, strategy);
+          await send(context, {
+            type: 'text',
+            data: { text: `已将本群表情选取方式设为：${selectionStrategyLabels[strategy]}。` }
+          });
+          return;
+        }
+        if (subcommand === 'ctx' && !isGroupChat) {
+          const arg = segments[2];
+          const usage = `用法：${command} ${subcommand} {<群号>/off}`;
+          if (!arg) {
+            if (!hasAccess) return;
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  (libraryGroupId !== null
+                    ? `当前私聊使用群 ${await getGroupName(libraryGroupId)} 的表情库。\n`
+                    : `当前私聊未切换到任何群的表情库。\n`) + usage
+              }
+            });
+            return;
+          }
+          if (arg === 'off') {
+            if (!hasAccess) return;
             await send(context, {
               type: 'text',
-              data: { text: `已将用户 ${target} 添加到白名单。` }
+              data: {
+                text: resetContext(context.user_id)
+                  ? `已切换回个人表情库。`
+                  : `当前私聊未切换到任何群的表情库。`
+              }
             });
-          } else if (operation === 'remove') {
-            if (!allowlist.users?.includes(targetId)) {
+            return;
+          }
+          const groupId = /^\d+$/.test(arg) ? parseInt(arg) : NaN;
+          if (isNaN(groupId)) {
+            if (hasAccess) await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          if (!canAccess(context.user_id, groupId)) {
+            if (hasAccess) {
               await send(context, {
                 type: 'text',
-                data: { text: `用户 ${target} 不在白名单中。` }
+                data: { text: `你无法使用群 ${groupId} 的表情库。` }
               });
-              return;
             }
-            allowlist.users = allowlist.users.filter((id) => id !== targetId);
+            return;
+          }
+          if (!isAdmin && !(await getMemberRole(napcat, groupId, context.user_id))) {
             await send(context, {
               type: 'text',
-              data: { text: `已将用户 ${target} 从白名单中移除。` }
+              data: { text: `你不是群 ${groupId} 的成员，无法切换。` }
             });
+            return;
           }
-          await writeFile(allowlistPath, JSON.stringify(allowlist), 'utf-8');
-          console.log(`[qmoji] Updated user allowlist: ${await getUserName(targetId)}`);
+          switchContext(context.user_id, groupId);
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `已切换到群 ${await getGroupName(groupId)} 的表情库。发送、列出与保存表情都将作用于该群，使用 ${command} ${subcommand} off 切换回来。`
+            }
+          });
           return;
         }
-        if (subcommand === 'blocklist' && isAdmin) {
-          const operation = segments[2] || '';
+        if (subcommand === 'link' && isGroupChat) {
+          const operation = segments[2];
+          const describeLinkTarget = async (target: LinkTarget) =>
+            target.kind === 'group'
+              ? `群 ${await getGroupName(target.groupId)}`
+              : `圈子「${target.circle}」`;
           if (!operation) {
+            const sharedWith = await Promise.all(
+              getSharedWith(context.group_id).map(describeLinkTarget)
+            );
+            const sharedFrom = await Promise.all(getSharedFrom(context.group_id).map(getGroupName));
             await send(context, {
               type: 'text',
               data: {
                 text:
-                  'qmoji 黑名单\n' +
-                  `用户：\n${blocklist.users?.length ? (await Promise.all(blocklist.users.map(async (id) => `- ${await getUserName(id)}`))).join('\n') : '无'}`
+                  `本群表情库共享给：${sharedWith.join('、') || '无'}\n` +
+                  `本群可使用以下群的表情：${sharedFrom.join('、') || '无'}\n` +
+                  `用法：${command} ${subcommand} {add/remove} {<群号>/circle <名称>}`
               }
             });
             return;
           }
-          if (operation !== 'add' && operation !== 'remove') {
+          const target = parseLinkTarget(segments.slice(3));
+          if ((operation !== 'add' && operation !== 'remove') || !target) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} {add/remove} {<群号>/circle <名称>}` }
+            });
+            return;
+          }
+          if (target.kind === 'group' && target.groupId === context.group_id) {
+            await send(context, {
+              type: 'text',
+              data: { text: `不能将表情库共享给本群。` }
+            });
+            return;
+          }
+          if (!(await canManageGroup(napcat, context))) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅群主或管理员可管理本群表情库的共享。` }
+            });
+            return;
+          }
+          const name = await describeLinkTarget(target);
+          const changed =
+            operation === 'add'
+              ? shareLibrary(context.group_id, target, context.user_id.toString())
+              : unshareLibrary(context.group_id, target);
+          if (!changed) {
             await send(context, {
               type: 'text',
               data: {
-                text: `用法：${command} ${subcommand} [add/remove]`
+                text:
+                  operation === 'add'
+                    ? `本群表情库已共享给${name}。`
+                    : `本群表情库未共享给${name}。`
               }
             });
             return;
           }
-          const mention = context.message.find((m) => m.type === 'at');
-          if (!mention) {
+          audit({
+            action: operation === 'add' ? 'link.add' : 'link.remove',
+            scope: `chat-${context.group_id}`,
+            details: {
+              target:
+                target.kind === 'group' ? `group:${target.groupId}` : `circle:${target.circle}`
+            }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                operation === 'add'
+                  ? `已将本群表情库共享给${name}，对方可以使用但不能修改本群表情。`
+                  : `已取消本群表情库对${name}的共享。`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'circle' && isAdmin) {
+          const operation = segments[2];
+          const circle = segments[3];
+          const groupId = parseInt(segments[4]);
+          if (!operation) {
+            const circles = [...getCircles()];
             await send(context, {
               type: 'text',
               data: {
-                text: `请提及需要操作的用户。用法：${command} ${subcommand} ${operation} @用户`
+                text:
+                  `群聊圈子：\n` +
+                  ((
+                    await Promise.all(
+                      circles.map(
+                        async ([name, groups]) =>
+                          `- ${name}：${(await Promise.all(groups.map(getGroupName))).join('、')}`
+                      )
+                    )
+                  ).join('\n') || '无') +
+                  `\n用法：${command} ${subcommand} {add/remove} <名称> <群号>`
               }
             });
             return;
           }
-          const targetId = parseInt(mention.data.qq);
-          const target = await getUserName(targetId);
-          if (isNaN(targetId)) {
+          if (
+            (operation !== 'add' && operation !== 'remove') ||
+            !circle ||
+            !isValidCircleName(circle) ||
+            isNaN(groupId)
+          ) {
             await send(context, {
               type: 'text',
-              data: { text: `无法识别提及的用户。` }
+              data: { text: `用法：${command} ${subcommand} {add/remove} <名称> <群号>` }
             });
             return;
           }
-          if (operation === 'add') {
-            if (blocklist.users?.includes(targetId)) {
-              await send(context, {
-                type: 'text',
-                data: { text: `用户 ${target} 已在黑名单中。` }
-              });
-              return;
-            }
-            if (!blocklist.users) {
-              blocklist.users = [];
-            }
-            blocklist.users.push(targetId);
-
-            // Delete all images saved by this user
-            const imagesToDelete = getImagesBySavedBy(targetId.toString());
-            const uniqueFilePaths = new Set<string>();
-            for (const img of imagesToDelete) {
-              uniqueFilePaths.add(img.file_path);
-            }
-            const deletedCount = deleteImagesBySavedBy(targetId.toString());
-
-            // Delete physical files
-            for (const filePath of uniqueFilePaths) {
-              deleteImage(filePath);
-            }
-
+          const group = await getGroupName(groupId);
+          const changed =
+            operation === 'add'
+              ? joinCircle(circle, groupId, context.user_id.toString())
+              : leaveCircle(circle, groupId);
+          if (!changed) {
             await send(context, {
               type: 'text',
               data: {
-                text: `已将用户 ${target} 添加到黑名单，并删除了该用户保存的 ${deletedCount} 个表情。`
+                text:
+                  operation === 'add'
+                    ? `群 ${group} 已在圈子「${circle}」中。`
+                    : `群 ${group} 不在圈子「${circle}」中。`
               }
             });
-          } else if (operation === 'remove') {
-            if (!blocklist.users?.includes(targetId)) {
-              await send(context, {
-                type: 'text',
-                data: { text: `用户 ${target} 不在黑名单中。` }
-              });
-              return;
+            return;
+          }
+          audit({
+            action: operation === 'add' ? 'circle.add' : 'circle.remove',
+            details: { target: `circle:${circle}`, group: groupId }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                operation === 'add'
+                  ? `已将群 ${group} 加入圈子「${circle}」。`
+                  : `已将群 ${group} 移出圈子「${circle}」。`
             }
-            blocklist.users = blocklist.users.filter((id) => id !== targetId);
+          });
+          return;
+        }
+        if (subcommand === 'config' && isGroupChat) {
+          const key = segments[2] as SettingKey | undefined;
+          if (!key) {
             await send(context, {
               type: 'text',
-              data: { text: `已将用户 ${target} 从黑名单中移除。` }
+              data: {
+                text:
+                  `本群设置：\n` +
+                  settingKeys
+                    .map(
+                      (k) =>
+                        ` - ${k} (${settingDefinitions[k].label})：${settingDefinitions[k].format(settings)}` +
+                        (isGroupSettingOverridden(context.group_id, k) ? '' : ' (默认)')
+                    )
+                    .join('\n') +
+                  `\n用法：${command} ${subcommand} <设置项> [值/default]`
+              }
             });
+            return;
           }
-          await writeFile(blocklistPath, JSON.stringify(blocklist), 'utf-8');
-          console.log(`[qmoji] Updated user blocklist: ${await getUserName(targetId)}`);
-          return;
-        }
-        if (subcommand === 'stats' && isAdmin) {
-          const statsMap = new Map<
-            string,
-            { userId: string; count: number; totalUses: number; totalSize: number }
-          >();
-          const results = await Promise.all(
-            getAllImages().map(async (img) => {
-              try {
-                const fullPath = resolve(process.cwd(), img.file_path);
-                const fileStats = await stat(fullPath);
-                const size = fileStats.size;
-                return { userId: img.user_id, useCount: img.use_count, size };
-              } catch (err) {
-                console.error(`[qmoji] Failed to stat image ${img.file_path}:`, err);
-                return { userId: img.user_id, useCount: img.use_count, size: 0 };
-              }
-            })
-          );
-          for (const { userId, useCount, size } of results) {
-            if (!statsMap.has(userId)) {
-              statsMap.set(userId, {
-                userId,
-                count: 1,
-                totalUses: useCount,
-                totalSize: size
-              });
-            } else {
-              statsMap.get(userId)!.count += 1;
-              statsMap.get(userId)!.totalUses += useCount;
-              statsMap.get(userId)!.totalSize += size;
-            }
+          if (!settingKeys.includes(key)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `未知的设置项“${key}”。可用设置项：${settingKeys.join('、')}` }
+            });
+            return;
           }
-          const stats = (
-            await Promise.all(
-              Array.from(statsMap.entries()).map(async ([id, info]) =>
-                id === 'global'
-                  ? { type: 1, name: null, ...info }
-                  : id.startsWith('chat-')
-                    ? {
-                        type: 2,
-                        name: await getGroupName(parseInt(id.slice(5))),
-                        ...info
-                      }
-                    : { type: 3, name: await getUserName(parseInt(id)), ...info }
-              )
+          const definition = settingDefinitions[key];
+          const args = segments.slice(3);
+          if (!args.length) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `${definition.label}：${definition.format(settings)}\n用法：${command} ${subcommand} ${key} ${definition.usage}/default`
+              }
+            });
+            return;
+          }
+          if (!(await canManageGroup(napcat, context))) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅群主或管理员可修改本群设置。` }
+            });
+            return;
+          }
+          const error = setChatSetting(context.group_id, key, args);
+          if (error) {
+            await send(context, { type: 'text', data: { text: error } });
+            return;
+          }
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `已将本群的${definition.label}设为：${definition.format(getChatSettings(context.group_id))}${args[0] === 'default' ? ' (默认)' : ''}。`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'pin') {
+          const name = segments[2];
+          const index = parseInt(segments[3]);
+          if (!name || isNaN(index)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} <名称> <序号>` }
+            });
+            return;
+          }
+          const images = getImagesByNameAndUser(
+            name,
+            context.user_id.toString(),
+            libraryGroupId?.toString() ?? null,
+            settings.showGlobal,
+            true
+          );
+          if (index < 1 || index > images.length) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: images.length
+                  ? `序号超出范围。当前共有 ${images.length} 个表情。`
+                  : `没有找到名称为“${name}”的表情。`
+              }
+            });
+            return;
+          }
+          setPin(context.user_id.toString(), name, images[index - 1].id);
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `已将「${name}」的第 ${index} 个表情设为置顶。使用 ${settings.prefixes.use[0]}${name} pin 发送置顶表情。`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'unpin') {
+          const name = segments[2];
+          if (!name) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} <名称>` }
+            });
+            return;
+          }
+          await send(context, {
+            type: 'text',
+            data: {
+              text: removePin(context.user_id.toString(), name)
+                ? `已取消「${name}」的置顶。`
+                : `「${name}」没有置顶的表情。`
+            }
+          });
+          return;
+        }
+        // Words of every text segment in their original case, so that arguments after
+        // a mention (e.g. a ban reason) are kept
+        const words = context.message
+          .filter((m) => m.type === 'text')
+          .flatMap((m) => m.data.text.trim().split(/\s+/))
+          .filter(Boolean);
+        // Parses `@用户`, a QQ number or `group <群号>` at the start of `args`
+        // (a mention of the bot itself only addresses the command)
+        const parseAccessTarget = (
+          args: string[]
+        ): { kind: AccessKind; id: number; rest: string[] } | null => {
+          const mention = context.message
+            .filter((m) => m.type === 'at')
+            .find((m) => m.data.qq !== context.self_id.toString());
+          if (mention) {
+            const id = parseInt(mention.data.qq);
+            return isNaN(id) ? null : { kind: 'user', id, rest: args };
+          }
+          if (args[0]?.toLowerCase() === 'group' && /^\d+$/.test(args[1] ?? '')) {
+            return { kind: 'group', id: parseInt(args[1]), rest: args.slice(2) };
+          }
+          if (/^\d+$/.test(args[0] ?? '')) {
+            return { kind: 'user', id: parseInt(args[0]), rest: args.slice(1) };
+          }
+          return null;
+        };
+        const describeTarget = async (kind: AccessKind, id: number) =>
+          kind === 'user' ? `用户 ${await getUserName(id)}` : `群聊 ${await getGroupName(id)}`;
+        // Optional duration followed by an optional reason, e.g. `7d 刷屏`
+        const parseBanArgs = (args: string[]) => {
+          const duration = args[0] ? parseDuration(args[0].toLowerCase()) : null;
+          return {
+            duration,
+            reason: (duration ? args.slice(1) : args).join(' ') || null
+          };
+        };
+        const listBans = async (bans: BanRecord[]) =>
+          bans.length
+            ? (
+                await Promise.all(
+                  bans.map(
+                    async (b) =>
+                      `- ${formatBan(b, await describeTarget(b.kind, parseInt(b.target_id)))}`
+                  )
+                )
+              ).join('\n')
+            : '无';
+        if (subcommand === 'allowlist' && isAdmin) {
+          const operation = segments[2] || '';
+          if (!operation) {
+            const { users, groups } = getAllowlist();
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  'qmoji 白名单\n' +
+                  `用户：\n${users.length ? (await Promise.all(users.map(async (id) => `- ${await getUserName(id)}`))).join('\n') : '无'}\n` +
+                  `群聊：\n${groups.length ? (await Promise.all(groups.map(async (id) => `- ${await getGroupName(id)}`))).join('\n') : '无'}`
+              }
+            });
+            return;
+          }
+          const target = parseAccessTarget(words.slice(3));
+          if ((operation !== 'add' && operation !== 'remove') || !target) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `用法：${command} ${subcommand} [add/remove] {@用户/QQ号/group <群号>}`
+              }
+            });
+            return;
+          }
+          const name = await describeTarget(target.kind, target.id);
+          if (operation === 'add') {
+            if (!allow(target.kind, target.id, context.user_id.toString())) {
+              await send(context, {
+                type: 'text',
+                data: { text: `${name} 已在白名单中。` }
+              });
+              return;
+            }
+            await send(context, {
+              type: 'text',
+              data: { text: `已将${name} 添加到白名单。` }
+            });
+          } else {
+            if (!disallow(target.kind, target.id)) {
+              await send(context, {
+                type: 'text',
+                data: { text: `${name} 不在白名单中。` }
+              });
+              return;
+            }
+            await send(context, {
+              type: 'text',
+              data: { text: `已将${name} 从白名单中移除。` }
+            });
+          }
+          audit({
+            action: operation === 'add' ? 'allowlist.add' : 'allowlist.remove',
+            details: { target: `${target.kind}:${target.id}` }
+          });
+          console.log(`[qmoji] Updated ${target.kind} allowlist: ${name}`);
+          return;
+        }
+        if (subcommand === 'blocklist' && isAdmin) {
+          const operation = segments[2] || '';
+          if (!operation) {
+            await send(context, {
+              type: 'text',
+              data: { text: `qmoji 黑名单\n${await listBans(getBans())}` }
+            });
+            return;
+          }
+          const target = parseAccessTarget(words.slice(3));
+          if ((operation !== 'add' && operation !== 'remove') || !target) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `用法：${command} ${subcommand} add {@用户/QQ号/group <群号>} [时长，如 30m/12h/7d] [理由]\n${command} ${subcommand} remove {@用户/QQ号/group <群号>}`
+              }
+            });
+            return;
+          }
+          const name = await describeTarget(target.kind, target.id);
+          if (operation === 'add') {
+            if (target.kind === 'user' && isBotAdmin(target.id)) {
+              await send(context, {
+                type: 'text',
+                data: { text: `不能将管理员加入黑名单。` }
+              });
+              return;
+            }
+            const { duration, reason } = parseBanArgs(target.rest);
+            const created = ban(target.kind, target.id, context.user_id.toString(), {
+              duration,
+              reason
+            });
+            audit({
+              action: 'blocklist.add',
+              details: {
+                target: `${target.kind}:${target.id}`,
+                reason,
+                expiresAt: created.expires_at
+              }
+            });
+            // A permanent ban on a user also moves everything they saved to the trash
+            let deletedCount = 0;
+            if (target.kind === 'user' && !duration) {
+              const deletedIds = deleteImagesBySavedBy(
+                target.id.toString(),
+                context.user_id.toString()
+              );
+              deletedCount = deletedIds.length;
+              audit({
+                action: 'blocklist.purge',
+                imageIds: deletedIds,
+                details: { target: `user:${target.id}` }
+              });
+            }
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  `已将${formatBan(created, name)}。` +
+                  (target.kind === 'user' && !duration
+                    ? `\n已删除该用户保存的 ${deletedCount} 个表情。`
+                    : '')
+              }
+            });
+          } else {
+            if (!unban(target.kind, target.id)) {
+              await send(context, {
+                type: 'text',
+                data: { text: `${name} 不在黑名单中。` }
+              });
+              return;
+            }
+            audit({
+              action: 'blocklist.remove',
+              details: { target: `${target.kind}:${target.id}` }
+            });
+            await send(context, {
+              type: 'text',
+              data: { text: `已将${name} 从黑名单中移除。` }
+            });
+          }
+          console.log(`[qmoji] Updated blocklist: ${name}`);
+          return;
+        }
+        if ((subcommand === 'ban' || subcommand === 'unban') && isGroupChat) {
+          const target = parseAccessTarget(words.slice(2));
+          if (subcommand === 'ban' && !target) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  `本群黑名单\n${await listBans(getBans(context.group_id))}\n` +
+                  `用法：${command} ${subcommand} {@用户/QQ号} [时长，如 30m/12h/7d] [理由]`
+              }
+            });
+            return;
+          }
+          if (!target || target.kind !== 'user') {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} {@用户/QQ号}` }
+            });
+            return;
+          }
+          if (!(await canManageGroup(napcat, context))) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅群主或管理员可管理本群黑名单。` }
+            });
+            return;
+          }
+          const name = await describeTarget('user', target.id);
+          if (subcommand === 'ban') {
+            if (isBotAdmin(target.id) || target.id === context.user_id) {
+              await send(context, {
+                type: 'text',
+                data: { text: `不能封禁管理员或自己。` }
+              });
+              return;
+            }
+            const { duration, reason } = parseBanArgs(target.rest);
+            const created = ban('user', target.id, context.user_id.toString(), {
+              groupId: context.group_id,
+              duration,
+              reason
+            });
+            audit({
+              action: 'blocklist.add',
+              details: {
+                target: `user:${target.id}`,
+                group: context.group_id,
+                reason,
+                expiresAt: created.expires_at
+              }
+            });
+            await send(context, {
+              type: 'text',
+              data: { text: `已将${formatBan(created, name)}。` }
+            });
+          } else {
+            if (!unban('user', target.id, context.group_id)) {
+              await send(context, {
+                type: 'text',
+                data: { text: `${name} 未在本群被封禁。` }
+              });
+              return;
+            }
+            audit({
+              action: 'blocklist.remove',
+              details: { target: `user:${target.id}`, group: context.group_id }
+            });
+            await send(context, {
+              type: 'text',
+              data: { text: `已解除${name} 在本群的封禁。` }
+            });
+          }
+          return;
+        }
+        if (subcommand === 'log') {
+          const mention = context.message.find((m) => m.type === 'at');
+          const args = segments.slice(2);
+          // A trailing number is the page, so a numeric name needs an explicit page after it
+          const page =
+            args.length && /^\d+$/.test(args[args.length - 1]) ? parseInt(args.pop()!) : 1;
+          const filter: AuditLogFilter = mention
+            ? { actor: mention.data.qq }
+            : args[0]
+              ? { name: args[0] }
+              : {};
+          if (!isAdmin) {
+            if (!isGroupChat || !(await canManageGroup(napcat, context))) {
+              await send(context, {
+                type: 'text',
+                data: { text: `权限不足：仅群主、群管理员或机器人管理员可查看操作日志。` }
+              });
+              return;
+            }
+            filter.groupId = context.group_id.toString();
+          }
+          const pageSize = 10;
+          const { entries, total } = queryAuditLog(filter, pageSize, (page - 1) * pageSize);
+          if (total === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: '没有找到相关的操作记录。' }
+            });
+            return;
+          }
+          if (page < 1 || !entries.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `页数超出范围。当前共有 ${Math.ceil(total / pageSize)} 页。` }
+            });
+            return;
+          }
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `操作日志${filter.groupId ? ' (本群)' : ''}${filter.actor ? ` (操作者 ${filter.actor})` : ''}${filter.name ? ` (名称 ${filter.name})` : ''} (第 ${page} 页，共 ${Math.ceil(total / pageSize)} 页)\n` +
+                entries.map(formatAuditEntry).join('\n')
+            }
+          });
+          return;
+        }
+        if (subcommand === 'top') {
+          const targets = ['group', 'global', 'me'] as const;
+          let window: UseWindow = 'week';
+          let target: (typeof targets)[number] = isGroupChat ? 'group' : 'me';
+          for (const arg of segments.slice(2)) {
+            if (useWindows.includes(arg as UseWindow)) {
+              window = arg as UseWindow;
+            } else if (targets.includes(arg as (typeof targets)[number])) {
+              target = arg as (typeof targets)[number];
+            } else {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `用法：${command} ${subcommand} [${useWindows.join('/')}] [${targets.join('/')}]`
+                }
+              });
+              return;
+            }
+          }
+          if (target === 'group' && !isGroupChat) {
+            await send(context, {
+              type: 'text',
+              data: { text: `只能在群聊中查看本群排行。` }
+            });
+            return;
+          }
+          if (target === 'global' && !isAdmin) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅管理员可查看全局排行。` }
+            });
+            return;
+          }
+          const filter: UseFilter = {
+            since: getWindowStart(window),
+            ...(target === 'group' && isGroupChat
+              ? { groupId: context.group_id.toString() }
+              : target === 'me'
+                ? { userId: context.user_id.toString() }
+                : {})
+          };
+          const names = getTopNames(filter, 10);
+          if (names.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: `${useWindowLabels[window]}没有使用记录。` }
+            });
+            return;
+          }
+          const users = target === 'me' ? [] : getTopUsers(filter, 10);
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `${target === 'group' ? '本群' : target === 'global' ? '全局' : '我的'}表情排行 (${useWindowLabels[window]})\n` +
+                names
+                  .map(
+                    (entry, i) =>
+                      `${i + 1}. 「${entry.key}」${entry.scope === 'global' ? ' (全局)' : entry.scope?.startsWith('chat-') ? ' (群聊)' : ' (个人)'} ${entry.uses} 次`
+                  )
+                  .join('\n') +
+                (users.length
+                  ? '\n\n活跃用户\n' +
+                    (
+                      await Promise.all(
+                        users.map(
+                          async (user, i) =>
+                            `${i + 1}. ${await getUserName(parseInt(user.key))} ${user.uses} 次`
+                        )
+                      )
+                    ).join('\n')
+                  : '')
+            }
+          });
+          return;
+        }
+        if (subcommand === 'stats' && isAdmin) {
+          const stats = (
+            await Promise.all(
+              getScopeStats().map(async ({ user_id: id, count, total_uses, total_size }) => {
+                const info = { count, totalUses: total_uses, totalSize: total_size };
+                return id === 'global'
+                  ? { type: 1, name: null, ...info }
+                  : id.startsWith('chat-')
+                    ? {
+                        type: 2,
+                        name: await getGroupName(parseInt(id.slice(5))),
+                        ...info
+                      }
+                    : { type: 3, name: await getUserName(parseInt(id)), ...info };
+              })
             )
           ).sort((a, b) => (a.type === b.type ? b.totalSize - a.totalSize : a.type - b.type));
 
@@ -498,139 +1581,861 @@ napcat.on('message', async (context: AllHandlers['message']) => {
             },
             {} as Record<number, typeof stats>
           );
-
-          const lines = [
-            '储存总览',
-            '总计：',
-            ` - 共 ${stats.length} 个表情`,
-            ` - 使用 ${stats.reduce((sum, s) => sum + s.totalUses, 0)} 次`,
-            ` - 占用 ${formatBytes(stats.reduce((sum, s) => sum + s.totalSize, 0))}`
-          ];
-          for (const [typeStr, items] of Object.entries(groupedStats)) {
-            const type = parseInt(typeStr);
-            const label = type === 1 ? '全局' : type === 2 ? '群组' : '用户';
-            lines.push('', `${label}：`);
-            for (const item of items) {
-              lines.push(
-                ` - ${item.name ? `${item.name}：` : ''}共 ${item.count} 个, 使用 ${item.totalUses} 次, 占用 ${formatBytes(item.totalSize)}`
-              );
+
+          const lines = [
+            '储存总览',
+            '总计：',
+            ` - 共 ${stats.reduce((sum, s) => sum + s.count, 0)} 个表情`,
+            ` - 使用 ${stats.reduce((sum, s) => sum + s.totalUses, 0)} 次`,
+            ` - 占用 ${formatBytes(getStoredSize())}`
+          ];
+          for (const [typeStr, items] of Object.entries(groupedStats)) {
+            const type = parseInt(typeStr);
+            const label = type === 1 ? '全局' : type === 2 ? '群组' : '用户';
+            lines.push('', `${label}：`);
+            for (const item of items) {
+              lines.push(
+                ` - ${item.name ? `${item.name}：` : ''}共 ${item.count} 个, 使用 ${item.totalUses} 次, 占用 ${formatBytes(item.totalSize)}`
+              );
+            }
+          }
+
+          const segments: SendMessageSegment[] = [];
+          for (let i = 0; i < lines.length; i += 50) {
+            const batch = lines.slice(i, i + 50);
+            segments.push({
+              type: 'node',
+              data: { content: [{ type: 'text', data: { text: batch.join('\n') } }] }
+            });
+          }
+
+          await send(context, ...segments);
+          return;
+        }
+        if (subcommand === 'reload' && isAdmin) {
+          let changed: (keyof Config)[];
+          try {
+            changed = reloadConfig();
+          } catch (err) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  err instanceof ConfigError
+                    ? `配置文件有误，已保留当前配置：\n${err.issues.map((issue) => `- ${issue}`).join('\n')}`
+                    : `重新加载配置失败：${(err as Error).message}`
+              }
+            });
+            return;
+          }
+          // Reply before a possible reconnect drops this connection
+          await send(context, {
+            type: 'text',
+            data: {
+              text: changed.length
+                ? `已重新加载配置，变更项：${changed.join('、')}` +
+                  (changed.includes('http') ? '\nHTTP 设置需重启后生效。' : '')
+                : '配置没有变化。'
+            }
+          });
+          await applyConfigChanges(changed);
+          return;
+        }
+        if (subcommand === 'migrate' && isAdmin) {
+          if (segments[2] !== 'status') {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} status` }
+            });
+            return;
+          }
+          const status = getSchemaStatus();
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                '数据库迁移状态\n' +
+                `当前版本：${status.currentVersion} / 最新版本：${status.latestVersion}\n` +
+                `已应用：\n${status.applied.map((m) => `- ${m.version} ${m.name} (${new Date(m.applied_at).toLocaleString('zh-CN')})`).join('\n') || '无'}\n` +
+                `待应用：\n${status.pending.map((m) => `- ${m.version} ${m.name}`).join('\n') || '无'}\n` +
+                `本次启动的备份：${status.lastBackup ?? '无'}`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'review' && isAdmin) {
+          const submissions = getPendingSubmissions();
+          if (submissions.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: '暂无待审核的投稿。' }
+            });
+            return;
+          }
+          await send(
+            context,
+            ...(await Promise.all(
+              submissions.map(
+                async (submission) =>
+                  ({
+                    type: 'node',
+                    data: { content: await getSubmissionSummary(submission) }
+                  }) satisfies SendMessageSegment
+              )
+            ))
+          );
+          return;
+        }
+        if ((subcommand === 'approve' || subcommand === 'reject') && isAdmin) {
+          const id = parseInt(segments[2]);
+          if (isNaN(id)) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `请指定投稿编号。用法：${command} ${subcommand} <编号>${subcommand === 'reject' ? ' [理由]' : ''}`
+              }
+            });
+            return;
+          }
+          const submission = getSubmissionById(id);
+          if (!submission || submission.status !== 'pending') {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有找到编号为 #${id} 的待审核投稿。` }
+            });
+            return;
+          }
+          const reviewedBy = context.user_id.toString();
+          if (subcommand === 'approve') {
+            const approvedIds = approveSubmission(id, reviewedBy);
+            audit({
+              action: 'approve',
+              scope: 'global',
+              name: submission.name,
+              imageIds: approvedIds,
+              details: { submission: id }
+            });
+            await send(context, {
+              type: 'text',
+              data: { text: `已通过投稿 #${id}，${approvedIds.length} 个表情已加入全局层级。` }
+            });
+            await notifySubmitter(
+              submission,
+              `你投稿的全局表情「${submission.name}」(#${id}) 已通过审核。`
+            );
+          } else {
+            // Keep the original casing of the reason
+            const reason = text.trim().split(/\s+/).slice(3).join(' ') || null;
+            const rejectedIds = rejectSubmission(id, reviewedBy, reason);
+            purgeOrphanedBlobs();
+            audit({
+              action: 'reject',
+              scope: 'global',
+              name: submission.name,
+              imageIds: rejectedIds,
+              details: { submission: id, reason }
+            });
+            await send(context, {
+              type: 'text',
+              data: { text: `已拒绝投稿 #${id}。` }
+            });
+            await notifySubmitter(
+              submission,
+              `你投稿的全局表情「${submission.name}」(#${id}) 未通过审核。${reason ? `理由：${reason}` : ''}`
+            );
+          }
+          console.log(
+            `[qmoji] Submission #${id} ${subcommand === 'approve' ? 'approved' : 'rejected'} by ${reviewedBy}`
+          );
+          return;
+        }
+        if (subcommand === 'list' || (subcommand === 'listall' && isAdmin)) {
+          const page = parseInt(segments[2]) || 1;
+          const scope =
+            segments[3] ||
+            (!segments[2] || parseInt(segments[2]) ? settings.listScope : segments[2]);
+          const fetchPersonal = scope.includes('p') || scope.includes('私') || scope.includes('自');
+          const fetchGroup = scope.includes('c') || scope.includes('群');
+          const fetchGlobal =
+            settings.showGlobal &&
+            (scope.includes('g') || scope.includes('公') || scope.includes('全'));
+          const images =
+            subcommand === 'list'
+              ? getImagesByUser(
+                  fetchPersonal ? context.user_id.toString() : null,
+                  fetchGroup ? (libraryGroupId?.toString() ?? null) : null,
+                  fetchGlobal,
+                  fetchGroup
+                )
+              : getAllImages();
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: '未查询到任何表情。' }
+            });
+            return;
+          }
+          const groups = images.reduce(
+            (acc, img) => {
+              if (!acc[`${img.name}-${img.user_id}`]) {
+                acc[`${img.name}-${img.user_id}`] = [];
+              }
+              acc[`${img.name}-${img.user_id}`].push(img);
+              return acc;
+            },
+            {} as Record<string, typeof images>
+          );
+          const groupEntries = Object.entries(groups);
+          if (page < 1 || (page - 1) * 50 >= groupEntries.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `页数超出范围。当前共有 ${Math.ceil(groupEntries.length / 50)} 页。` }
+            });
+            return;
+          }
+          await send(context, {
+            type: 'node',
+            data: {
+              content: [
+                {
+                  type: 'text',
+                  data: {
+                    text: `已保存的表情列表 (${groupEntries.length}) (第 ${page} 页，共 ${Math.ceil(groupEntries.length / 50)} 页)\n`
+                  }
+                },
+                ...(
+                  await Promise.all(
+                    groupEntries
+                      .slice((page - 1) * 50, page * 50)
+                      .map(([, images]) =>
+                        getEmojiList(
+                          images[0].name,
+                          [random(images)],
+                          false,
+                          isAdmin && !isGroupChat,
+                          libraryGroupId,
+                          images.length
+                        )
+                      )
+                  )
+                ).flat()
+              ]
+            }
+          });
+          return;
+        }
+        const clear = async (userId: string) => {
+          const name = segments[2];
+          if (!name) {
+            await send(context, {
+              type: 'text',
+              data: { text: `请指定要清除的表情名称。用法：${command} ${subcommand} <名称>` }
+            });
+            return;
+          }
+          const resolvedName = resolveAlias(name, userId);
+          const deletedIds = clearImagesByNameAndUserId(
+            resolvedName,
+            userId,
+            context.user_id.toString()
+          );
+          if (deletedIds.length > 0) {
+            audit({ action: 'clear', scope: userId, name: resolvedName, imageIds: deletedIds });
+          }
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `成功清除 ${deletedIds.length} 个表情。` +
+                (deletedIds.length ? trashNotice(command, resolvedName, userId) : '')
+            }
+          });
+        };
+        if (subcommand === 'clear' || subcommand === 'cl') {
+          await clear(context.user_id.toString());
+          return;
+        }
+        if ((subcommand === 'cleargroup' || subcommand === 'cgr') && libraryGroupId !== null) {
+          if (!(await canPerformGroupAction(napcat, context, 'clear', libraryGroupId))) {
+            await send(context, {
+              type: 'text',
+              data: { text: getPermissionDeniedMessage(libraryGroupId, 'clear') }
+            });
+            return;
+          }
+          await clear(`chat-${libraryGroupId}`);
+          return;
+        }
+        if ((subcommand === 'clearglobal' || subcommand === 'cgl') && isAdmin) {
+          await clear('global');
+          return;
+        }
+        // Resolves the personal/group/global scope argument of a management command,
+        // replying with the reason when the sender may not use it
+        // (`action` is the group permission required; null for read-only commands)
+        const resolveScope = async (
+          scope = 'personal',
+          action: GroupAction | null = 'rename'
+        ): Promise<string | undefined> => {
+          if (scope === 'personal') return context.user_id.toString();
+          if (scope === 'group') {
+            if (libraryGroupId === null) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `请在群聊中，或使用 ${command} ctx <群号> 切换到群后再操作群聊表情。`
+                }
+              });
+              return;
+            }
+            if (action && !(await canPerformGroupAction(napcat, context, action, libraryGroupId))) {
+              await send(context, {
+                type: 'text',
+                data: { text: getPermissionDeniedMessage(libraryGroupId, action) }
+              });
+              return;
+            }
+            return `chat-${libraryGroupId}`;
+          }
+          if (scope === 'global') {
+            if (!isAdmin) {
+              await send(context, {
+                type: 'text',
+                data: { text: `权限不足：仅管理员可操作全局表情。` }
+              });
+              return;
+            }
+            return 'global';
+          }
+          await send(context, {
+            type: 'text',
+            data: { text: `请指定层级（personal、group 或 global）。` }
+          });
+        };
+        // Trash visible to the sender: their own, the current library group's and, for admins, global
+        const trashScopes = [
+          context.user_id.toString(),
+          ...(libraryGroupId !== null ? [`chat-${libraryGroupId}`] : []),
+          ...(isAdmin ? ['global'] : [])
+        ];
+        if (subcommand === 'trash') {
+          const page = parseInt(segments[2]) || 1;
+          const pageSize = 20;
+          const images = getTrashedImages(trashScopes);
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: '回收站是空的。' }
+            });
+            return;
+          }
+          if (page < 1 || (page - 1) * pageSize >= images.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `页数超出范围。当前共有 ${Math.ceil(images.length / pageSize)} 页。` }
+            });
+            return;
+          }
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `回收站 (${images.length}) (第 ${page} 页，共 ${Math.ceil(images.length / pageSize)} 页)\n` +
+                images
+                  .slice((page - 1) * pageSize, page * pageSize)
+                  .map(
+                    (img) =>
+                      `${img.id.slice(0, 8)}「${img.name}」${img.user_id === 'global' ? ' (全局)' : img.user_id.startsWith('chat-') ? ' (群聊)' : ''}` +
+                      ` 由 ${img.deleted_by} 删除，${formatTimeLeft(img.deleted_at!)}后永久删除`
+                  )
+                  .join('\n') +
+                `\n使用 ${command} restore <编号/名称> [personal/group/global] 恢复`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'restore') {
+          const target = segments[2];
+          if (!target) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `请指定要恢复的表情编号或名称。用法：${command} ${subcommand} <编号/名称> [personal/group/global]`
+              }
+            });
+            return;
+          }
+          let images = /^[0-9a-f-]{4,}$/.test(target)
+            ? getTrashedImages(trashScopes).filter((img) => img.id.startsWith(target))
+            : [];
+          if (images.length > 1) {
+            await send(context, {
+              type: 'text',
+              data: { text: `编号“${target}”对应多个表情，请提供更长的编号。` }
+            });
+            return;
+          }
+          if (images.length === 1) {
+            const [image] = images;
+            // Group emojis follow the same rule as removal: own saves, or the delete permission
+            if (
+              libraryGroupId !== null &&
+              image.user_id === `chat-${libraryGroupId}` &&
+              image.saved_by !== context.user_id.toString() &&
+              !(await canPerformGroupAction(napcat, context, 'delete', libraryGroupId))
+            ) {
+              await send(context, {
+                type: 'text',
+                data: { text: getPermissionDeniedMessage(libraryGroupId, 'delete') }
+              });
+              return;
+            }
+          } else {
+            const userId = await resolveScope(segments[3], 'delete');
+            if (!userId) return;
+            images = getTrashedImages([userId]).filter((img) => img.name === target);
+          }
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: `回收站中没有找到“${target}”。` }
+            });
+            return;
+          }
+          // Restored images count against the scope's quota again
+          const quotaExceeded = checkQuota(
+            images[0].user_id,
+            getImageSizes(images.map((img) => img.id))
+          );
+          if (quotaExceeded) {
+            await send(context, {
+              type: 'text',
+              data: { text: `恢复失败：${quotaExceeded}` }
+            });
+            return;
+          }
+          const restoredIds = restoreImages(images.map((img) => img.id));
+          audit({
+            action: 'restore',
+            scope: images[0].user_id,
+            name: images[0].name,
+            imageIds: restoredIds
+          });
+          await send(context, {
+            type: 'text',
+            data: { text: `已恢复 ${restoredIds.length} 个表情「${images[0].name}」。` }
+          });
+          return;
+        }
+        if (subcommand === 'rename' || subcommand === 'merge') {
+          const isMerge = subcommand === 'merge';
+          const source = segments[2];
+          const target = segments[3];
+          if (!source || !target) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: isMerge
+                  ? `用法：${command} ${subcommand} <名称A> <名称B> [personal/group/global]`
+                  : `用法：${command} ${subcommand} <原名称> <新名称> [personal/group/global]`
+              }
+            });
+            return;
+          }
+          const userId = await resolveScope(segments[4]);
+          if (!userId) return;
+          const sourceName = resolveAlias(source, userId);
+          const targetName = resolveAlias(target, userId);
+          if (!hasName(sourceName, userId)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有找到名称为“${source}”的表情。` }
+            });
+            return;
+          }
+          if (sourceName === targetName) {
+            await send(context, {
+              type: 'text',
+              data: { text: `“${source}”与“${target}”已是同一组表情。` }
+            });
+            return;
+          }
+          if (isMerge && !hasName(targetName, userId)) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `没有找到名称为“${target}”的表情。如需改名，请使用 ${command} rename。`
+              }
+            });
+            return;
+          }
+          if (!isMerge && hasName(target, userId)) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `名称“${target}”已存在。如需合并，请使用 ${command} merge ${source} ${target}。`
+              }
+            });
+            return;
+          }
+          const targetAlias = isMerge ? undefined : getAlias(target, userId);
+          if (targetAlias) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `“${target}”已是“${targetAlias.name}”的别名。如需使用该名称，请先使用 ${command} unalias ${target} 移除别名。`
+              }
+            });
+            return;
+          }
+          const changedIds = isMerge
+            ? mergeImages(sourceName, targetName, userId, context.user_id.toString())
+            : renameImages(sourceName, target, userId);
+          audit({
+            action: isMerge ? 'merge' : 'rename',
+            scope: userId,
+            name: sourceName,
+            imageIds: changedIds,
+            details: { to: isMerge ? targetName : target }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text: isMerge
+                ? `成功将 ${changedIds.length} 个“${sourceName}”表情并入“${targetName}”，“${sourceName}”已成为其别名。`
+                : `成功将 ${changedIds.length} 个表情从“${sourceName}”重命名为“${target}”。`
             }
+          });
+          console.log(
+            `[qmoji] ${isMerge ? 'Merged' : 'Renamed'} ${sourceName} -> ${isMerge ? targetName : target} in ${userId} by ${context.user_id}`
+          );
+          return;
+        }
+        if (subcommand === 'alias') {
+          const name = segments[2];
+          const alias = segments[3];
+          if (!name || !alias) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} <名称> <别名> [personal/group/global]` }
+            });
+            return;
           }
-
-          const segments: SendMessageSegment[] = [];
-          for (let i = 0; i < lines.length; i += 50) {
-            const batch = lines.slice(i, i + 50);
-            segments.push({
-              type: 'node',
-              data: { content: [{ type: 'text', data: { text: batch.join('\n') } }] }
+          const userId = await resolveScope(segments[4]);
+          if (!userId) return;
+          const targetName = resolveAlias(name, userId);
+          if (!hasName(targetName, userId)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有找到名称为“${name}”的表情。` }
             });
+            return;
           }
-
-          await send(context, ...segments);
+          if (hasName(alias, userId) || getAlias(alias, userId)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `“${alias}”已被用作名称或别名。` }
+            });
+            return;
+          }
+          addAlias(alias, targetName, userId, context.user_id.toString());
+          audit({
+            action: 'alias.add',
+            scope: userId,
+            name: targetName,
+            details: { target: alias }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `已为“${targetName}”添加别名“${alias}”。当前别名：${getAliases(
+                targetName,
+                userId
+              )
+                .map((a) => a.alias)
+                .join('、')}`
+            }
+          });
+          console.log(
+            `[qmoji] Added alias ${alias} -> ${targetName} in ${userId} by ${context.user_id}`
+          );
           return;
         }
-        if (subcommand === 'list' || (subcommand === 'listall' && isAdmin)) {
-          const page = parseInt(segments[2]) || 1;
-          const scope =
-            segments[3] || (!segments[2] || parseInt(segments[2]) ? 'pcg' : segments[2]);
-          const fetchPersonal = scope.includes('p') || scope.includes('私') || scope.includes('自');
-          const fetchGroup = scope.includes('c') || scope.includes('群');
-          const fetchGlobal = scope.includes('g') || scope.includes('公') || scope.includes('全');
-          const images =
-            subcommand === 'list'
-              ? getImagesByUser(
-                  fetchPersonal ? context.user_id.toString() : null,
-                  isGroupChat && fetchGroup ? context.group_id.toString() : null,
-                  fetchGlobal
-                )
-              : getAllImages();
+        if (subcommand === 'unalias') {
+          const alias = segments[2];
+          if (!alias) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} <别名> [personal/group/global]` }
+            });
+            return;
+          }
+          const userId = await resolveScope(segments[3]);
+          if (!userId) return;
+          const record = getAlias(alias, userId);
+          if (!record || !removeAlias(alias, userId)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有找到别名“${alias}”。` }
+            });
+            return;
+          }
+          audit({
+            action: 'alias.remove',
+            scope: userId,
+            name: record.name,
+            details: { target: alias }
+          });
+          await send(context, {
+            type: 'text',
+            data: { text: `已移除别名“${alias}”。` }
+          });
+          return;
+        }
+        if (subcommand === 'tag') {
+          const name = segments[2];
+          const index = parseInt(segments[3]);
+          if (!name || isNaN(index) || index < 1) {
+            await send(context, {
+              type: 'text',
+              data: { text: `用法：${command} ${subcommand} <名称> <序号> [+标签] [-标签]` }
+            });
+            return;
+          }
+          const images = getImagesByNameAndUser(
+            name,
+            context.user_id.toString(),
+            libraryGroupId?.toString() ?? null,
+            settings.showGlobal
+          );
           if (images.length === 0) {
             await send(context, {
               type: 'text',
-              data: { text: '未查询到任何表情。' }
+              data: { text: `没有找到名称为“${name}”的表情。` }
             });
             return;
           }
-          const groups = images.reduce(
-            (acc, img) => {
-              if (!acc[`${img.name}-${img.user_id}`]) {
-                acc[`${img.name}-${img.user_id}`] = [];
-              }
-              acc[`${img.name}-${img.user_id}`].push(img);
-              return acc;
-            },
-            {} as Record<string, typeof images>
+          if (index > images.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `序号超出范围。当前共有 ${images.length} 个表情。` }
+            });
+            return;
+          }
+          const image = images[index - 1];
+          const operations = segments.slice(4);
+          const tagsToRemove = operations
+            .filter((op) => op.startsWith('-'))
+            .map((op) => op.slice(1))
+            .filter(Boolean);
+          const tagsToAdd = operations
+            .filter((op) => !op.startsWith('-'))
+            .map((op) => (op.startsWith('+') ? op.slice(1) : op))
+            .filter(Boolean);
+          if (tagsToAdd.length || tagsToRemove.length) {
+            if (image.user_id === 'global' && !isAdmin) {
+              await send(context, {
+                type: 'text',
+                data: { text: `权限不足：仅管理员可编辑全局表情的标签。` }
+              });
+              return;
+            }
+            if (
+              image.user_id.startsWith('chat-') &&
+              !(await canPerformGroupAction(
+                napcat,
+                context,
+                'rename',
+                parseInt(image.user_id.slice(5))
+              ))
+            ) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: getPermissionDeniedMessage(parseInt(image.user_id.slice(5)), 'rename')
+                }
+              });
+              return;
+            }
+            const tagEntry = { scope: image.user_id, name: image.name, imageIds: [image.id] };
+            const formatTags = (tags: string[]) => tags.map((t) => `#${t}`).join(' ');
+            if (addTags(image.id, tagsToAdd)) {
+              audit({ ...tagEntry, action: 'tag.add', details: { target: formatTags(tagsToAdd) } });
+            }
+            if (removeTags(image.id, tagsToRemove)) {
+              audit({
+                ...tagEntry,
+                action: 'tag.remove',
+                details: { target: formatTags(tagsToRemove) }
+              });
+            }
+          }
+          const tags = getTags(image.id);
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `“${name}”的第 ${index} 个表情的标签：${tags.length ? tags.map((t) => `#${t}`).join(' ') : '无'}`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'search' || subcommand === 'find') {
+          const terms = segments.slice(2);
+          const page =
+            terms.length > 1 && /^\d+$/.test(terms[terms.length - 1]) ? parseInt(terms.pop()!) : 1;
+          const query = terms.join(' ');
+          const pageSize = 20;
+          if (!query) {
+            await send(context, {
+              type: 'text',
+              data: { text: `请指定搜索关键词。用法：${command} ${subcommand} <关键词> [页数]` }
+            });
+            return;
+          }
+          const images = searchImages(
+            query,
+            context.user_id.toString(),
+            libraryGroupId?.toString() ?? null,
+            settings.showGlobal,
+            true
           );
-          const groupEntries = Object.entries(groups);
-          if (page < 1 || (page - 1) * 50 >= groupEntries.length) {
+          if (images.length === 0) {
             await send(context, {
               type: 'text',
-              data: { text: `页数超出范围。当前共有 ${Math.ceil(groupEntries.length / 50)} 页。` }
+              data: { text: `没有找到与“${query}”相关的表情。` }
+            });
+            return;
+          }
+          if (page < 1 || (page - 1) * pageSize >= images.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `页数超出范围。当前共有 ${Math.ceil(images.length / pageSize)} 页。` }
             });
             return;
           }
           await send(context, {
             type: 'node',
             data: {
-              content: [
-                {
-                  type: 'text',
-                  data: {
-                    text: `已保存的表情列表 (${groupEntries.length}) (第 ${page} 页，共 ${Math.ceil(groupEntries.length / 50)} 页)\n`
-                  }
-                },
-                ...(
-                  await Promise.all(
-                    groupEntries
-                      .slice((page - 1) * 50, page * 50)
-                      .map(([id, images]) =>
-                        getEmojiList(
-                          id.split('-')[0],
-                          [random(images)],
-                          false,
-                          isAdmin && !isGroupChat,
-                          isGroupChat ? context.group_id : null,
-                          images.length
-                        )
-                      )
-                  )
-                ).flat()
-              ]
+              content: await getEmojiList(
+                `搜索：${query}`,
+                images,
+                true,
+                isAdmin && !isGroupChat,
+                libraryGroupId,
+                images.length,
+                page,
+                pageSize,
+                true
+              )
             }
           });
           return;
         }
-        const clear = async (userId: string) => {
-          const name = segments[2];
-          if (!name) {
+        if (subcommand === 'export') {
+          const hasScope = ['personal', 'group', 'global'].includes(segments[2]);
+          const scope = hasScope ? segments[2] : 'personal';
+          const name = hasScope ? segments[3] : segments[2];
+          const userId = await resolveScope(scope, null);
+          if (!userId) return;
+          const images = (
+            scope === 'personal'
+              ? getImagesByUser(userId, null, false)
+              : scope === 'group'
+                ? getImagesByUser(null, userId.slice(5), false)
+                : getImagesByUser(null, null, true)
+          ).filter((img) => !name || img.name === resolveAlias(name, userId));
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: name ? `没有找到名称为“${name}”的表情。` : '没有可导出的表情。' }
+            });
+            return;
+          }
+          const archive = exportPack(images, scope);
+          const date = new Date().toISOString().slice(0, 10);
+          await send(context, {
+            type: 'file',
+            data: {
+              file: `base64://${archive.toString('base64')}`,
+              name: `qmoji-${scope}${name ? `-${name}` : ''}-${date}.zip`
+            }
+          });
+          console.log(
+            `[qmoji] Exported ${images.length} images from ${userId}${name ? ` (${name})` : ''} for ${context.user_id}`
+          );
+          return;
+        }
+        if (subcommand === 'import') {
+          const options = segments.slice(2);
+          const scope = options.find((o) => ['personal', 'group', 'global'].includes(o));
+          const mode: ImportMode = options.includes('merge') ? 'merge' : 'skip';
+          const reply = context.message.find((m) => m.type === 'reply');
+          const file = [
+            ...context.message,
+            ...((reply ? await napcat.get_msg({ message_id: parseInt(reply.data.id) }) : undefined)
+              ?.message || [])
+          ].find((m) => m.type === 'file');
+          if (!file) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `请附带或回复由 ${command} export 导出的压缩包。用法：${command} ${subcommand} [personal/group/global] [skip/merge]`
+              }
+            });
+            return;
+          }
+          const userId = await resolveScope(scope, 'save');
+          if (!userId) return;
+          try {
+            const { url } =
+              (isGroupChat
+                ? await napcat.get_group_file_url({
+                    group_id: context.group_id,
+                    file_id: file.data.file_id
+                  })
+                : await napcat.get_private_file_url({ file_id: file.data.file_id })) ?? {};
+            if (!url) {
+              throw new Error('无法获取文件下载地址');
+            }
+            const result = importPack(
+              await downloadPack(url),
+              userId,
+              context.user_id.toString(),
+              mode
+            );
+            if (result.imported) {
+              audit({
+                action: 'import',
+                scope: userId,
+                imageIds: result.importedIds,
+                details: { mode }
+              });
+            }
+            await send(context, {
+              type: 'text',
+              data: {
+                text:
+                  `导入完成：新增 ${result.imported} 个表情。` +
+                  (result.skippedNames.length
+                    ? `\n已跳过重名的名称：${result.skippedNames.join('、')}`
+                    : '') +
+                  (result.mergedNames.length
+                    ? `\n已合并至现有名称：${result.mergedNames.join('、')}`
+                    : '') +
+                  (result.duplicates ? `\n忽略重复的表情 ${result.duplicates} 个。` : '') +
+                  (result.invalid ? `\n无效条目 ${result.invalid} 个。` : '')
+              }
+            });
+            console.log(
+              `[qmoji] Imported ${result.imported} images into ${userId} (${mode}) by ${context.user_id}`
+            );
+          } catch (error) {
+            console.error('[qmoji] Failed to import pack:', error);
             await send(context, {
               type: 'text',
-              data: { text: `请指定要清除的表情名称。用法：${command} ${subcommand} <名称>` }
-            });
-            return;
-          }
-          const images = getImagesByNameAndUser(name, userId);
-          const deletedCount = clearImagesByNameAndUserId(name, userId);
-          if (deletedCount > 0) {
-            images.forEach((img) => {
-              deleteEmoji(context, img);
+              data: { text: `导入失败：${error instanceof Error ? error.message : '未知错误'}` }
             });
           }
-          await send(context, {
-            type: 'text',
-            data: { text: `成功清除 ${deletedCount} 个表情。` }
-          });
-        };
-        if (subcommand === 'clear' || subcommand === 'cl') {
-          await clear(context.user_id.toString());
-          return;
-        }
-        if ((subcommand === 'cleargroup' || subcommand === 'cgr') && isGroupChat) {
-          await clear(`chat-${context.group_id}`);
-          return;
-        }
-        if ((subcommand === 'clearglobal' || subcommand === 'cgl') && isAdmin) {
-          await clear('global');
           return;
         }
         if (subcommand === 'remove' || subcommand === 'delete' || subcommand === 'rm') {
@@ -653,7 +2458,7 @@ napcat.on('message', async (context: AllHandlers['message']) => {
           const images = getImagesByNameAndUser(
             name,
             context.user_id.toString(),
-            isGroupChat ? context.group_id.toString() : null,
+            libraryGroupId?.toString() ?? null,
             isAdmin
           );
           if (images.length === 0) {
@@ -671,12 +2476,34 @@ napcat.on('message', async (context: AllHandlers['message']) => {
             return;
           }
           const imageToDelete = images[index - 1];
-          const success = deleteImageById(imageToDelete.id);
+          // Members may always remove group emojis they saved themselves
+          if (
+            libraryGroupId !== null &&
+            imageToDelete.user_id === `chat-${libraryGroupId}` &&
+            imageToDelete.saved_by !== context.user_id.toString() &&
+            !(await canPerformGroupAction(napcat, context, 'delete', libraryGroupId))
+          ) {
+            await send(context, {
+              type: 'text',
+              data: { text: getPermissionDeniedMessage(libraryGroupId, 'delete') }
+            });
+            return;
+          }
+          const success = deleteImageById(imageToDelete.id, context.user_id.toString());
           if (success) {
-            deleteEmoji(context, imageToDelete);
+            audit({
+              action: 'delete',
+              scope: imageToDelete.user_id,
+              name: imageToDelete.name,
+              imageIds: [imageToDelete.id]
+            });
             await send(context, {
               type: 'text',
-              data: { text: `成功删除名称为“${name}”的第 ${index} 个表情。` }
+              data: {
+                text:
+                  `成功删除名称为“${name}”的第 ${index} 个表情。` +
+                  trashNotice(command, imageToDelete.id.slice(0, 8))
+              }
             });
           } else {
             await send(context, {
@@ -686,6 +2513,183 @@ napcat.on('message', async (context: AllHandlers['message']) => {
           }
           return;
         }
+        if ((subcommand === 'transfer' || subcommand === 'mv') && segments[2] === 'user') {
+          const usage = `用法：${command} ${subcommand} user {@用户/QQ号} <名称> [序号] [group/global]`;
+          if (!isAdmin) {
+            await send(context, {
+              type: 'text',
+              data: { text: `权限不足：仅管理员可将表情转移给指定用户。` }
+            });
+            return;
+          }
+          const target = parseAccessTarget(words.slice(3));
+          const [rawName, ...args] = target?.rest ?? [];
+          if (!target || target.kind !== 'user' || !rawName) {
+            await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          const name = rawName.toLowerCase();
+          const index = args[0] && /^\d+$/.test(args[0]) ? parseInt(args.shift()!) : undefined;
+          const from = args[0]?.toLowerCase() ?? (libraryGroupId !== null ? 'group' : 'global');
+          const source =
+            from === 'global'
+              ? 'global'
+              : from === 'group' && libraryGroupId !== null
+                ? `chat-${libraryGroupId}`
+                : null;
+          if (!source) {
+            await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          const images = getImagesByNameAndUser(name, source);
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `没有找到名称为“${name}”的${from === 'global' ? '全局' : '群聊'}表情。`
+              }
+            });
+            return;
+          }
+          if (index !== undefined && (index < 1 || index > images.length)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `序号超出范围。当前共有 ${images.length} 个表情。` }
+            });
+            return;
+          }
+          const imagesToTransfer = index !== undefined ? [images[index - 1]] : images;
+          const quotaExceeded = checkQuota(
+            target.id.toString(),
+            getImageSizes(imagesToTransfer.map((img) => img.id))
+          );
+          if (quotaExceeded) {
+            await send(context, {
+              type: 'text',
+              data: { text: `转移失败：${quotaExceeded}` }
+            });
+            return;
+          }
+          const transferredIds = transferImagesOwnership(
+            imagesToTransfer.map((img) => img.id),
+            target.id.toString()
+          );
+          audit({
+            action: 'transfer',
+            scope: source,
+            name,
+            imageIds: transferredIds,
+            details: { to: target.id }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `成功将 ${transferredIds.length} 个${from === 'global' ? '全局' : '群聊'}表情转移给用户 ${await getUserName(target.id)}。`
+            }
+          });
+          return;
+        }
+        if (subcommand === 'copy' || subcommand === 'cp') {
+          const usage = `用法：${command} ${subcommand} <名称> [序号] [to personal/group]`;
+          const name = segments[2];
+          const args = segments.slice(3);
+          const index = args[0] && /^\d+$/.test(args[0]) ? parseInt(args.shift()!) : undefined;
+          if (args[0] === 'to') args.shift();
+          const to = args[0] ?? 'personal';
+          if (!name || (to !== 'personal' && to !== 'group')) {
+            await send(context, { type: 'text', data: { text: usage } });
+            return;
+          }
+          let targetScope: string;
+          if (to === 'group') {
+            if (libraryGroupId === null) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `请在群聊中，或使用 ${command} ctx <群号> 切换到群后再复制到群聊层级。`
+                }
+              });
+              return;
+            }
+            if (!(await canPerformGroupAction(napcat, context, 'save', libraryGroupId))) {
+              await send(context, {
+                type: 'text',
+                data: { text: getPermissionDeniedMessage(libraryGroupId, 'save') }
+              });
+              return;
+            }
+            targetScope = `chat-${libraryGroupId}`;
+          } else {
+            if (isGroupChat && !settings.personalSave) {
+              await send(context, {
+                type: 'text',
+                data: { text: `本群已关闭个人表情保存。` }
+              });
+              return;
+            }
+            targetScope = context.user_id.toString();
+          }
+          // Same list and numbering as `qmoji <名称>`
+          const images = getImagesByNameAndUser(
+            name,
+            context.user_id.toString(),
+            libraryGroupId?.toString() ?? null,
+            settings.showGlobal,
+            true
+          );
+          if (images.length === 0) {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有找到名称为“${name}”的表情。` }
+            });
+            return;
+          }
+          if (index !== undefined && (index < 1 || index > images.length)) {
+            await send(context, {
+              type: 'text',
+              data: { text: `序号超出范围。当前共有 ${images.length} 个表情。` }
+            });
+            return;
+          }
+          const sources = (index !== undefined ? [images[index - 1]] : images).filter(
+            (img) => img.user_id !== targetScope
+          );
+          const entries = getBlobsToCopy(sources, targetScope);
+          if (!entries.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `没有需要复制的表情：目标层级中已有相同的表情。` }
+            });
+            return;
+          }
+          if (await isRateLimited(context, 'save')) return;
+          const quotaExceeded = checkQuota(
+            targetScope,
+            entries.map((entry) => entry.blob.size)
+          );
+          if (quotaExceeded) {
+            await send(context, {
+              type: 'text',
+              data: { text: `复制失败：${quotaExceeded}` }
+            });
+            return;
+          }
+          const copies = copyImages(entries, targetScope);
+          audit({
+            action: 'copy',
+            scope: targetScope,
+            name: copies[0].name,
+            imageIds: copies.map((img) => img.id),
+            details: { from: entries[0].image.user_id }
+          });
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `成功将 ${copies.length} 个表情复制到${to === 'group' ? '群聊' : '个人'}层级。`
+            }
+          });
+          return;
+        }
         if (subcommand === 'transfer' || subcommand === 'mv') {
           const target = segments[2];
           const name = segments[3];
@@ -719,16 +2723,35 @@ napcat.on('message', async (context: AllHandlers['message']) => {
           const imagesToTransfer = index !== undefined ? [images[index - 1]] : images;
           let newUserId: string;
           if (target === 'global') {
+            // Non-admins publish to the global scope through the review queue instead
+            if (!isAdmin) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `权限不足：仅管理员可将表情转移至全局层级。请使用 ${settings.prefixes.globalSave[0]}<名称> 投稿。`
+                }
+              });
+              return;
+            }
             newUserId = 'global';
           } else if (target === 'group') {
-            if (!isGroupChat) {
+            if (libraryGroupId === null) {
+              await send(context, {
+                type: 'text',
+                data: {
+                  text: `请在群聊中，或使用 ${command} ctx <群号> 切换到群后再将个人表情转移至群聊层级。`
+                }
+              });
+              return;
+            }
+            if (!(await canPerformGroupAction(napcat, context, 'transfer', libraryGroupId))) {
               await send(context, {
                 type: 'text',
-                data: { text: `只能在群聊中将个人表情转移至群聊层级。` }
+                data: { text: getPermissionDeniedMessage(libraryGroupId, 'transfer') }
               });
               return;
             }
-            newUserId = `chat-${context.group_id}`;
+            newUserId = `chat-${libraryGroupId}`;
           } else {
             await send(context, {
               type: 'text',
@@ -738,14 +2761,32 @@ napcat.on('message', async (context: AllHandlers['message']) => {
             });
             return;
           }
-          const transferredCount = transferImagesOwnership(
+          const quotaExceeded = checkQuota(
+            newUserId,
+            getImageSizes(imagesToTransfer.map((img) => img.id))
+          );
+          if (quotaExceeded) {
+            await send(context, {
+              type: 'text',
+              data: { text: `转移失败：${quotaExceeded}` }
+            });
+            return;
+          }
+          const transferredIds = transferImagesOwnership(
             imagesToTransfer.map((img) => img.id),
             newUserId
           );
+          audit({
+            action: 'transfer',
+            scope: context.user_id.toString(),
+            name: imagesToTransfer[0].name,
+            imageIds: transferredIds,
+            details: { to: newUserId }
+          });
           await send(context, {
             type: 'text',
             data: {
-              text: `成功将 ${transferredCount} 个个人表情转移至${target === 'global' ? '全局' : '群聊'}层级。`
+              text: `成功将 ${transferredIds.length} 个个人表情转移至${target === 'global' ? '全局' : '群聊'}层级。`
             }
           });
           return;
@@ -756,7 +2797,8 @@ napcat.on('message', async (context: AllHandlers['message']) => {
         const images = getImagesByNameAndUser(
           name,
           context.user_id.toString(),
-          isGroupChat ? context.group_id.toString() : null,
+          libraryGroupId?.toString() ?? null,
+          settings.showGlobal,
           true
         );
         if (page < 1 || (page - 1) * pageSize >= images.length) {
@@ -772,16 +2814,22 @@ napcat.on('message', async (context: AllHandlers['message']) => {
             ? {
                 type: 'node',
                 data: {
-                  content: await getEmojiList(
-                    name,
-                    images,
-                    true,
-                    isAdmin && !isGroupChat,
-                    isGroupChat ? context.group_id : null,
-                    images.length,
-                    page,
-                    pageSize
-                  )
+                  content: [
+                    ...(await getEmojiList(
+                      name,
+                      images,
+                      true,
+                      isAdmin && !isGroupChat,
+                      libraryGroupId,
+                      images.length,
+                      page,
+                      pageSize
+                    )),
+                    await getUseBreakdown(
+                      images.map((img) => img.id),
+                      isGroupChat ? context.group_id : null
+                    )
+                  ]
                 }
               }
             : {
@@ -811,60 +2859,265 @@ napcat.on('message', async (context: AllHandlers['message']) => {
           .filter((m) => m.type === 'image')
           .map((m) => m.data);
         if (!images.length) return;
-
-        try {
-          const savedBy = context.user_id.toString();
-          const savedFrom = isGroupChat ? context.group_id.toString() : null;
-
-          images.map(async (image) => {
-            const filePath = await downloadImage(image.url, userId, image.file);
-            insertImage(name, filePath, userId, savedBy, savedFrom);
-            console.log(
-              `[qmoji] User: ${userId}, Name: ${name}, Path: ${filePath}, SavedBy: ${savedBy}, SavedFrom: ${savedFrom || 'private'}`
-            );
+        if (isGroupChat && userId === context.user_id.toString() && !settings.personalSave) {
+          await send(context, {
+            type: 'text',
+            data: {
+              text: `本群已关闭个人表情保存，请使用 ${settings.prefixes.groupSave[0]}<名称> 保存为群聊表情。`
+            }
           });
+          return;
+        }
+        if (await isRateLimited(context, 'save')) return;
+        if (
+          libraryGroupId !== null &&
+          userId === `chat-${libraryGroupId}` &&
+          !(await canPerformGroupAction(napcat, context, 'save', libraryGroupId))
+        ) {
+          await send(context, {
+            type: 'text',
+            data: { text: getPermissionDeniedMessage(libraryGroupId, 'save') }
+          });
+          return;
+        }
 
+        const fail = async (reason: string) => {
           if (isGroupChat) {
             await napcat.set_msg_emoji_like({
               message_id: context.message_id,
-              emoji_id: '124'
+              emoji_id: '10060'
             });
+          }
+          await send(context, {
+            type: 'text',
+            data: { text: `保存失败：${reason}` }
+          });
+        };
+        // Refuse before downloading when the scope is already full
+        const quotaExceeded = checkQuota(
+          userId,
+          images.map(() => 0)
+        );
+        if (quotaExceeded) {
+          await fail(quotaExceeded);
+          return;
+        }
+
+        const savedBy = context.user_id.toString();
+        const savedFrom = libraryGroupId?.toString() ?? null;
+        const results = await Promise.allSettled(
+          images.map((image) => downloadImage(image.url, image.file))
+        );
+        const buffers: Buffer[] = [];
+        const failures: string[] = [];
+        for (const result of results) {
+          if (result.status === 'fulfilled') {
+            buffers.push(result.value);
           } else {
-            await send(context, {
-              type: 'text',
-              data: { text: '保存成功！' }
+            console.error('[qmoji] Failed to download image:', result.reason);
+            failures.push(result.reason instanceof Error ? result.reason.message : '未知错误');
+          }
+        }
+        if (buffers.length) {
+          const quotaError = checkQuota(
+            userId,
+            buffers.map((buffer) => buffer.length)
+          );
+          if (quotaError) {
+            await fail(quotaError);
+            return;
+          }
+        }
+
+        const blobs: BlobInfo[] = [];
+        let submission: SubmissionRecord | null = null;
+        if (buffers.length) {
+          try {
+            // Files are written only after the rows commit, so a failed insert leaves none behind
+            blobs.push(...buffers.map(hashBlob));
+            // Global saves by non-admins are queued for review instead of being published directly
+            const saved = insertImages(
+              name,
+              blobs,
+              userId,
+              savedBy,
+              savedFrom,
+              userId === 'global' && !isAdmin
+            );
+            submission = saved.submission;
+            for (const buffer of buffers) storeBlob(buffer);
+            audit({
+              action: 'insert',
+              scope: userId,
+              name,
+              imageIds: saved.images.map((image) => image.id),
+              details: submission ? { submission: submission.id } : undefined
             });
+            for (const blob of blobs) {
+              console.log(
+                `[qmoji] User: ${userId}, Name: ${name}, Path: ${blob.file_path}, SavedBy: ${savedBy}, SavedFrom: ${savedFrom || 'private'}${submission ? `, Submission: #${submission.id}` : ''}`
+              );
+            }
+          } catch (error) {
+            console.error('[qmoji] Failed to save image:', error);
+            failures.push(...buffers.map(() => '无法写入数据库'));
+            blobs.length = 0;
           }
-        } catch (error) {
-          console.error('[qmoji] Failed to save image:', error);
+        }
+
+        // Identical reasons are reported once, e.g. "2 个失败：图片过大"
+        const failureSummary = [...new Set(failures)].join('；');
+        if (!blobs.length) {
+          await fail(failureSummary);
+          return;
+        }
+        const partial = failures.length
+          ? `已保存 ${blobs.length}/${images.length} 个表情，${failures.length} 个失败：${failureSummary}`
+          : null;
+
+        if (submission) {
+          await notifyAdmins(submission);
+          await send(context, {
+            type: 'text',
+            data: {
+              text:
+                `已提交全局表情「${name}」的投稿 (#${submission.id})，请等待管理员审核。` +
+                (partial ? `\n${partial}` : '')
+            }
+          });
+          return;
+        }
+
+        if (partial) {
+          await send(context, { type: 'text', data: { text: partial } });
+        } else if (isGroupChat) {
+          await napcat.set_msg_emoji_like({
+            message_id: context.message_id,
+            emoji_id: '124'
+          });
+        } else {
           await send(context, {
             type: 'text',
-            data: { text: `保存失败：${error instanceof Error ? error.message : '未知错误'}` }
+            data: { text: '保存成功！' }
           });
         }
       };
-      if (config.prefixes.globalSave.includes(command[0])) {
+      if (settings.prefixes.globalSave.includes(command[0])) {
         await save('global');
       }
-      if (config.prefixes.groupSave.includes(command[0]) && isGroupChat) {
-        await save(`chat-${context.group_id}`);
+      if (settings.prefixes.groupSave.includes(command[0]) && libraryGroupId !== null) {
+        await save(`chat-${libraryGroupId}`);
       }
-      if (config.prefixes.save.includes(command[0])) {
+      if (settings.prefixes.save.includes(command[0])) {
         await save(context.user_id.toString());
       }
-      if (config.prefixes.use.includes(command[0])) {
+      const isSave = [
+        ...settings.prefixes.save,
+        ...settings.prefixes.groupSave,
+        ...settings.prefixes.globalSave
+      ].includes(command[0]);
+      if (settings.inlineTriggers && !isSave) {
+        const parts = parseInlineMessage(
+          context.message,
+          settings.prefixes.use,
+          settings.inlineLimit
+        );
+        const triggers = parts.filter((part) => part.type === 'trigger');
+        // A lone leading trigger keeps the `.name [序号/选取方式]` form below
+        if (triggers.length > 1 || (triggers.length && parts[0].type !== 'trigger')) {
+          const resolved = triggers.map((trigger) => {
+            const images = getImagesByNameAndUser(
+              trigger.name,
+              context.user_id.toString(),
+              libraryGroupId?.toString() ?? null,
+              settings.showGlobal,
+              true
+            );
+            return images.length
+              ? selectImage(
+                  images,
+                  getSelectionStrategy(libraryGroupId),
+                  context.user_id.toString(),
+                  isGroupChat ? `group-${context.group_id}` : `private-${context.user_id}`
+                )
+              : null;
+          });
+          if (!resolved.some(Boolean)) return;
+          if (await isRateLimited(context, 'use')) return;
+          const composed: SendMessageSegment[] = [];
+          let pending = '';
+          for (const part of parts) {
+            if (part.type === 'segment') {
+              if (pending) composed.push({ type: 'text', data: { text: pending } });
+              pending = '';
+              composed.push(part.segment);
+              continue;
+            }
+            const image = part.type === 'trigger' ? resolved[triggers.indexOf(part)] : null;
+            if (!image) {
+              pending += part.type === 'text' ? part.text : part.raw;
+              continue;
+            }
+            if (pending) composed.push({ type: 'text', data: { text: pending } });
+            pending = '';
+            recordUse(
+              image,
+              context.user_id.toString(),
+              isGroupChat ? context.group_id.toString() : null
+            );
+            composed.push(await getEmoji(image, true));
+          }
+          if (pending) composed.push({ type: 'text', data: { text: pending } });
+          await send(context, ...composed);
+          return;
+        }
+      }
+      if (settings.prefixes.use.includes(command[0])) {
         const name = command.slice(1);
         if (!name) {
           return;
         }
-        const images = getImagesByNameAndUser(
+        if (await isRateLimited(context, 'use')) return;
+        let images = getImagesByNameAndUser(
           name,
           context.user_id.toString(),
-          isGroupChat ? context.group_id.toString() : null,
+          libraryGroupId?.toString() ?? null,
+          settings.showGlobal,
           true
         );
         if (images.length === 0) {
-          if (config.reactOnNotFound) {
+          const matches =
+            settings.notFound !== 'suggest' && settings.notFound !== 'auto'
+              ? []
+              : findSimilarNames(
+                  name,
+                  getVisibleNames(
+                    context.user_id.toString(),
+                    libraryGroupId?.toString() ?? null,
+                    settings.showGlobal,
+                    true
+                  )
+                );
+          if (settings.notFound === 'auto' && isConfidentMatch(matches)) {
+            images = getImagesByNameAndUser(
+              matches[0].name,
+              context.user_id.toString(),
+              libraryGroupId?.toString() ?? null,
+              settings.showGlobal,
+              true
+            );
+          } else if (matches.length) {
+            await send(context, {
+              type: 'text',
+              data: {
+                text: `未找到名称为“${name}”的表情。你是不是想找：${matches.map((m) => `${settings.prefixes.use[0]}${m.name}`).join('、')}`
+              }
+            });
+            return;
+          }
+        }
+        if (images.length === 0) {
+          if (settings.notFound !== 'off') {
             if (isGroupChat) {
               await napcat.set_msg_emoji_like({
                 message_id: context.message_id,
@@ -879,18 +3132,101 @@ napcat.on('message', async (context: AllHandlers['message']) => {
           }
           return;
         }
-        const selectedImage = random(images);
-        incrementUseCount(selectedImage.id);
+        // An inline argument picks by index (as listed by `qmoji <名称>`) or overrides the strategy
+        const arg = segments[1];
+        let selectedImage: ImageRecord;
+        if (arg && /^\d+$/.test(arg)) {
+          const index = parseInt(arg);
+          if (index < 1 || index > images.length) {
+            await send(context, {
+              type: 'text',
+              data: { text: `序号超出范围。当前共有 ${images.length} 个表情。` }
+            });
+            return;
+          }
+          selectedImage = images[index - 1];
+        } else {
+          selectedImage = selectImage(
+            images,
+            (arg && parseSelectionStrategy(arg)) || getSelectionStrategy(libraryGroupId),
+            context.user_id.toString(),
+            isGroupChat ? `group-${context.group_id}` : `private-${context.user_id}`
+          );
+        }
+        recordUse(
+          selectedImage,
+          context.user_id.toString(),
+          isGroupChat ? context.group_id.toString() : null
+        );
         await send(context, await getEmoji(selectedImage, true));
       }
     }
   } catch (err) {
     console.error('[qmoji] Error handling message:', err);
   }
-});
+};
+
+const createConnection = () => {
+  const connection = new NapCatConnection(
+    {
+      baseUrl: config.napcatWs,
+      accessToken: config.napcatToken,
+      throwPromise: false,
+      reconnection: {
+        enable: true,
+        attempts: 10,
+        delay: 5000
+      }
+    },
+    false
+  );
+  connection.on('socket.open', () => {
+    console.log('[NapCat] Connected.');
+  });
+  connection.on('socket.close', () => {
+    console.log('[NapCat] Disconnected.');
+    // Only the current connection closing means we are shutting down
+    if (connection !== napcat) return;
+    try {
+      socketClose.signal(undefined);
+    } catch {
+      // ignore if already resolved
+    }
+  });
+  connection.on('message', handleMessage);
+  return connection;
+};
+
+/**
+ * Applies a reloaded config: most settings are read on use, but the NapCat connection
+ * has to be reopened.
+ */
+const applyConfigChanges = async (changed: (keyof Config)[]) => {
+  console.log(`[qmoji] Config reloaded (changed: ${changed.join(', ') || 'nothing'}).`);
+  if (changed.includes('http')) {
+    console.log('[qmoji] HTTP server settings take effect after a restart.');
+  }
+  if (changed.includes('napcatWs') || changed.includes('napcatToken')) {
+    console.log('[NapCat] Connection settings changed, reconnecting...');
+    const previous = napcat;
+    napcat = createConnection();
+    previous.close();
+    await napcat.connect();
+  }
+};
+
+napcat = createConnection();
+
+const server = startServer();
 
 await napcat.connect();
 
+watchConfig((changed) => {
+  applyConfigChanges(changed).catch((err) =>
+    console.error('[qmoji] Failed to apply config changes:', err)
+  );
+});
+
 let shutdownInitiated = false;
 process.on('SIGINT', async () => {
   if (shutdownInitiated) {
@@ -900,7 +3236,8 @@ process.on('SIGINT', async () => {
   shutdownInitiated = true;
   console.log('\nGracefully shutting down...');
 
-  napcat.disconnect();
+  napcat.close();
+  server?.close();
 
   const timeout = new Promise<void>((resolve) => setTimeout(resolve, 5000));
   await Promise.race([socketClose.promise, timeout]);
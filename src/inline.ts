@@ -0,0 +1,73 @@
+import type { AllHandlers, AtSegment, FaceSegment } from 'node-napcat-ts';
+
+/**
+ * A message split around its `.name` triggers, with the text between them kept as is.
+ */
+export type InlinePart =
+  | { type: 'text'; text: string }
+  | { type: 'trigger'; name: string; raw: string }
+  | { type: 'segment'; segment: AtSegment | FaceSegment };
+
+/**
+ * Finds up to `limit` tokens starting with one of the use `prefixes`; any further triggers
+ * stay plain text. Tokens made only of the prefix, such as `...`, are not triggers.
+ */
+export const parseInlineTriggers = (
+  text: string,
+  prefixes: string[],
+  limit: number
+): InlinePart[] => {
+  const parts: InlinePart[] = [];
+  let triggers = 0;
+  for (const token of text.split(/(\s+)/)) {
+    const [prefix, ...rest] = [...token];
+    if (
+      triggers < limit &&
+      prefix &&
+      prefixes.includes(prefix) &&
+      rest.some((char) => char !== prefix)
+    ) {
+      parts.push({ type: 'trigger', name: rest.join('').toLowerCase(), raw: token });
+      triggers++;
+      continue;
+    }
+    const last = parts[parts.length - 1];
+    if (last?.type === 'text') {
+      last.text += token;
+    } else if (token) {
+      parts.push({ type: 'text', text: token });
+    }
+  }
+  return parts;
+};
+
+/**
+ * Finds triggers in a message's text segments only, so mentions and faces never join the
+ * text around them; they are kept in place and any other segments are dropped.
+ * `limit` applies to the whole message.
+ */
+export const parseInlineMessage = (
+  message: AllHandlers['message']['message'],
+  prefixes: string[],
+  limit: number
+): InlinePart[] => {
+  const parts: InlinePart[] = [];
+  for (const segment of message) {
+    if (segment.type === 'text') {
+      const triggers = parts.filter((part) => part.type === 'trigger').length;
+      for (const part of parseInlineTriggers(segment.data.text, prefixes, limit - triggers)) {
+        const last = parts[parts.length - 1];
+        if (part.type === 'text' && last?.type === 'text') {
+          last.text += part.text;
+        } else {
+          parts.push(part);
+        }
+      }
+    } else if (segment.type === 'at') {
+      parts.push({ type: 'segment', segment: { type: 'at', data: { qq: segment.data.qq } } });
+    } else if (segment.type === 'face') {
+      parts.push({ type: 'segment', segment: { type: 'face', data: { id: segment.data.id } } });
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,71 @@
+import {
+  addCircleMember,
+  addLibraryLink,
+  getCircleMembers,
+  getLibraryLinks,
+  getLinkedGroups,
+  removeCircleMember,
+  removeLibraryLink
+} from './db.js';
+
+/**
+ * Who a group shares its library with: another group, or every group in a circle.
+ */
+export type LinkTarget = { kind: 'group'; groupId: number } | { kind: 'circle'; circle: string };
+
+const circleNamePattern = /^[\p{L}\p{N}_-]{1,32}$/u;
+
+export const isValidCircleName = (name: string): boolean => circleNamePattern.test(name);
+
+const encodeTarget = (target: LinkTarget) =>
+  target.kind === 'group' ? `group:${target.groupId}` : `circle:${target.circle}`;
+
+const decodeTarget = (value: string): LinkTarget =>
+  value.startsWith('group:')
+    ? { kind: 'group', groupId: parseInt(value.slice(6)) }
+    : { kind: 'circle', circle: value.slice(7) };
+
+/**
+ * Parses `<群号>` or `circle <名称>`.
+ */
+export const parseLinkTarget = (args: string[]): LinkTarget | null => {
+  if (args[0] === 'circle') {
+    return args[1] && isValidCircleName(args[1]) ? { kind: 'circle', circle: args[1] } : null;
+  }
+  return args[0] && /^\d+$/.test(args[0]) ? { kind: 'group', groupId: parseInt(args[0]) } : null;
+};
+
+/**
+ * Returns false if the group already shared its library with the target.
+ */
+export const shareLibrary = (groupId: number, target: LinkTarget, actor: string): boolean =>
+  addLibraryLink(groupId.toString(), encodeTarget(target), actor);
+
+/**
+ * Returns false if there was no such link.
+ */
+export const unshareLibrary = (groupId: number, target: LinkTarget): boolean =>
+  removeLibraryLink(groupId.toString(), encodeTarget(target));
+
+export const getSharedWith = (groupId: number): LinkTarget[] =>
+  getLibraryLinks(groupId.toString()).map((link) => decodeTarget(link.target));
+
+/**
+ * Groups whose libraries are visible in `groupId`.
+ */
+export const getSharedFrom = (groupId: number): number[] =>
+  getLinkedGroups(groupId.toString()).map(Number);
+
+export const joinCircle = (circle: string, groupId: number, actor: string): boolean =>
+  addCircleMember(circle, groupId.toString(), actor);
+
+export const leaveCircle = (circle: string, groupId: number): boolean =>
+  removeCircleMember(circle, groupId.toString());
+
+export const getCircles = (): Map<string, number[]> => {
+  const circles = new Map<string, number[]>();
+  for (const member of getCircleMembers()) {
+    circles.set(member.circle, [...(circles.get(member.circle) ?? []), Number(member.group_id)]);
+  }
+  return circles;
+};
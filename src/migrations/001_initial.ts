@@ -0,0 +1,219 @@
+import type { Migration } from './index.js';
+
+/**
+ * Baseline schema. Every statement is idempotent so that this also brings databases
+ * created before versioned migrations existed up to date.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'initial',
+  up: (db) => {
+    // Create images table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS images (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        saved_by TEXT NOT NULL,
+        saved_from TEXT,
+        use_count INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    // Create blobs table: every distinct file is stored once, keyed by its SHA-256 hash
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS blobs (
+        hash TEXT PRIMARY KEY,
+        file_path TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        ref_count INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create submissions table: global saves by non-admins wait here for review
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS submissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        submitted_by TEXT NOT NULL,
+        submitted_from TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at INTEGER NOT NULL,
+        reviewed_by TEXT,
+        reviewed_at INTEGER,
+        reason TEXT
+      )
+    `);
+
+    // Create group settings table: free-form per-group key/value pairs
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS group_settings (
+        group_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (group_id, key)
+      )
+    `);
+
+    // Create aliases table: an alias resolves to a name within the same scope
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS aliases (
+        alias TEXT NOT NULL,
+        name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        PRIMARY KEY (alias, user_id)
+      )
+    `);
+
+    const addColumnIfMissing = (table: string, column: string, definition: string) => {
+      const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some((c) => c.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    };
+
+    addColumnIfMissing('images', 'blob_hash', 'TEXT REFERENCES blobs(hash)');
+    addColumnIfMissing('images', 'status', "TEXT NOT NULL DEFAULT 'approved'");
+    addColumnIfMissing('images', 'submission_id', 'INTEGER REFERENCES submissions(id)');
+
+    // Keep blobs.ref_count in sync with the image rows pointing at each blob
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS images_blob_insert AFTER INSERT ON images
+      WHEN NEW.blob_hash IS NOT NULL
+      BEGIN
+        UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.blob_hash;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS images_blob_delete AFTER DELETE ON images
+      WHEN OLD.blob_hash IS NOT NULL
+      BEGIN
+        UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.blob_hash;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS images_blob_update AFTER UPDATE OF blob_hash ON images
+      WHEN OLD.blob_hash IS NOT NEW.blob_hash
+      BEGIN
+        UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.blob_hash;
+        UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.blob_hash;
+      END;
+    `);
+
+    // Drop aliases once the last image of their name leaves the scope
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS images_alias_delete AFTER DELETE ON images
+      BEGIN
+        DELETE FROM aliases WHERE name = OLD.name AND user_id = OLD.user_id
+          AND NOT EXISTS (SELECT 1 FROM images WHERE name = OLD.name AND user_id = OLD.user_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS images_alias_update AFTER UPDATE OF name, user_id ON images
+      BEGIN
+        DELETE FROM aliases WHERE name = OLD.name AND user_id = OLD.user_id
+          AND NOT EXISTS (SELECT 1 FROM images WHERE name = OLD.name AND user_id = OLD.user_id);
+      END;
+    `);
+
+    // Create tags table: free-form tags attached to individual images
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS image_tags (
+        image_id TEXT NOT NULL REFERENCES images(id),
+        tag TEXT NOT NULL,
+        PRIMARY KEY (image_id, tag)
+      )
+    `);
+
+    // Create full-text index over names, aliases and tags, keyed by images.rowid
+    const hasSearchIndex = db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'images_fts'")
+      .get();
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS images_fts USING fts5(
+        name,
+        aliases,
+        tags,
+        tokenize = 'trigram'
+      )
+    `);
+    if (!hasSearchIndex) {
+      db.exec(`
+        INSERT INTO images_fts (rowid, name, aliases, tags)
+        SELECT rowid, name,
+          (SELECT group_concat(alias, ' ') FROM aliases WHERE aliases.name = images.name AND aliases.user_id = images.user_id),
+          (SELECT group_concat(tag, ' ') FROM image_tags WHERE image_tags.image_id = images.id)
+        FROM images
+      `);
+    }
+
+    // Keep the full-text index in sync with images, aliases and tags
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS images_fts_insert AFTER INSERT ON images
+      BEGIN
+        INSERT INTO images_fts (rowid, name, aliases, tags) VALUES (
+          NEW.rowid,
+          NEW.name,
+          (SELECT group_concat(alias, ' ') FROM aliases WHERE name = NEW.name AND user_id = NEW.user_id),
+          NULL
+        );
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS images_fts_delete AFTER DELETE ON images
+      BEGIN
+        DELETE FROM images_fts WHERE rowid = OLD.rowid;
+        DELETE FROM image_tags WHERE image_id = OLD.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS images_fts_update AFTER UPDATE OF name, user_id ON images
+      BEGIN
+        UPDATE images_fts SET
+          name = NEW.name,
+          aliases = (SELECT group_concat(alias, ' ') FROM aliases WHERE name = NEW.name AND user_id = NEW.user_id)
+        WHERE rowid = NEW.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS aliases_fts_insert AFTER INSERT ON aliases
+      BEGIN
+        UPDATE images_fts SET
+          aliases = (SELECT group_concat(alias, ' ') FROM aliases WHERE name = NEW.name AND user_id = NEW.user_id)
+        WHERE rowid IN (SELECT rowid FROM images WHERE name = NEW.name AND user_id = NEW.user_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS aliases_fts_delete AFTER DELETE ON aliases
+      BEGIN
+        UPDATE images_fts SET
+          aliases = (SELECT group_concat(alias, ' ') FROM aliases WHERE name = OLD.name AND user_id = OLD.user_id)
+        WHERE rowid IN (SELECT rowid FROM images WHERE name = OLD.name AND user_id = OLD.user_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS aliases_fts_update AFTER UPDATE ON aliases
+      BEGIN
+        UPDATE images_fts SET
+          aliases = (SELECT group_concat(alias, ' ') FROM aliases WHERE name = OLD.name AND user_id = OLD.user_id)
+        WHERE rowid IN (SELECT rowid FROM images WHERE name = OLD.name AND user_id = OLD.user_id);
+        UPDATE images_fts SET
+          aliases = (SELECT group_concat(alias, ' ') FROM aliases WHERE name = NEW.name AND user_id = NEW.user_id)
+        WHERE rowid IN (SELECT rowid FROM images WHERE name = NEW.name AND user_id = NEW.user_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS image_tags_fts_insert AFTER INSERT ON image_tags
+      BEGIN
+        UPDATE images_fts SET
+          tags = (SELECT group_concat(tag, ' ') FROM image_tags WHERE image_id = NEW.image_id)
+        WHERE rowid = (SELECT rowid FROM images WHERE id = NEW.image_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS image_tags_fts_delete AFTER DELETE ON image_tags
+      BEGIN
+        UPDATE images_fts SET
+          tags = (SELECT group_concat(tag, ' ') FROM image_tags WHERE image_id = OLD.image_id)
+        WHERE rowid = (SELECT rowid FROM images WHERE id = OLD.image_id);
+      END;
+    `);
+  }
+};
+
+export default migration;
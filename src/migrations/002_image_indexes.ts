@@ -0,0 +1,17 @@
+import type { Migration } from './index.js';
+
+/**
+ * Indexes for the lookups done on every `.name` and by the blocklist purge.
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'image_indexes',
+  up: (db) => {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_images_name_user_id ON images (name, user_id);
+      CREATE INDEX IF NOT EXISTS idx_images_saved_by ON images (saved_by);
+    `);
+  }
+};
+
+export default migration;
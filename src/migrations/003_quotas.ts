@@ -0,0 +1,23 @@
+import type { Migration } from './index.js';
+
+/**
+ * Per-scope quota overrides set with `qmoji quota`. NULL falls back to the configured
+ * default for the scope's kind; -1 lifts the limit.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'quotas',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS quotas (
+        scope TEXT PRIMARY KEY,
+        max_count INTEGER,
+        max_size INTEGER,
+        updated_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+};
+
+export default migration;
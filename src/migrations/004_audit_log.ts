@@ -0,0 +1,30 @@
+import type { Migration } from './index.js';
+
+/**
+ * Records who changed the library: saves, deletions, clears, transfers, renames, reviews,
+ * imports and allowlist/blocklist edits.
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'audit_log',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        scope TEXT,
+        group_id TEXT,
+        name TEXT,
+        image_ids TEXT NOT NULL DEFAULT '[]',
+        details TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_name ON audit_log (name);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_group ON audit_log (group_id, scope);
+    `);
+  }
+};
+
+export default migration;
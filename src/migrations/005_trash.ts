@@ -0,0 +1,20 @@
+import type { Migration } from './index.js';
+
+/**
+ * Soft deletion: deleted images keep their row with status `deleted` until the retention
+ * period ends, so they can be restored.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'trash',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE images ADD COLUMN deleted_at INTEGER;
+      ALTER TABLE images ADD COLUMN deleted_by TEXT;
+      CREATE INDEX IF NOT EXISTS idx_images_deleted_at ON images (deleted_at)
+        WHERE status = 'deleted';
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import type { Migration } from './index.js';
+
+/**
+ * One row per `.name` use, plus daily rollups that old events are folded into.
+ * `group_id` is '' for private chats so that rollup rows stay unique.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'use_events',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS use_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        image_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        group_id TEXT NOT NULL DEFAULT '',
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_use_events_created_at ON use_events (created_at);
+      CREATE INDEX IF NOT EXISTS idx_use_events_group ON use_events (group_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_use_events_image ON use_events (image_id);
+
+      CREATE TABLE IF NOT EXISTS use_daily (
+        day INTEGER NOT NULL,
+        image_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        group_id TEXT NOT NULL DEFAULT '',
+        count INTEGER NOT NULL,
+        PRIMARY KEY (day, image_id, user_id, group_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_use_daily_group ON use_daily (group_id, day);
+      CREATE INDEX IF NOT EXISTS idx_use_daily_image ON use_daily (image_id);
+    `);
+  }
+};
+
+export default migration;
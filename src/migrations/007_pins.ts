@@ -0,0 +1,22 @@
+import type { Migration } from './index.js';
+
+/**
+ * Favourite image per user and name, used by the `pinned` selection strategy.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'pins',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS pins (
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        image_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, name)
+      )
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import config, { rootDir } from '../config.js';
+import type { Migration } from './index.js';
+
+interface LegacyLists {
+  users?: number[];
+  groups?: number[];
+}
+
+const readLegacyList = (fileName: string): LegacyLists | null => {
+  const filePath = path.join(rootDir, fileName);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LegacyLists;
+};
+
+/**
+ * Access control in the database, replacing allowlist.json and blocklist.json.
+ * A ban with an empty `group_id` applies everywhere; a NULL `expires_at` never expires.
+ * The JSON files are imported once; without an allowlist.json the admins are allowlisted,
+ * as before.
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'access_control',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS allowlist (
+        kind TEXT NOT NULL CHECK (kind IN ('user', 'group')),
+        target_id TEXT NOT NULL,
+        added_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, target_id)
+      );
+      CREATE TABLE IF NOT EXISTS bans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL CHECK (kind IN ('user', 'group')),
+        target_id TEXT NOT NULL,
+        group_id TEXT NOT NULL DEFAULT '',
+        reason TEXT,
+        banned_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        UNIQUE (kind, target_id, group_id)
+      );
+    `);
+
+    const now = Date.now();
+    const allowlist = readLegacyList('allowlist.json') ?? { users: config.admins };
+    const allow = db.prepare(
+      "INSERT OR IGNORE INTO allowlist (kind, target_id, added_by, created_at) VALUES (?, ?, 'import', ?)"
+    );
+    for (const id of allowlist.users ?? []) allow.run('user', id.toString(), now);
+    for (const id of allowlist.groups ?? []) allow.run('group', id.toString(), now);
+
+    const blocklist = readLegacyList('blocklist.json');
+    const ban = db.prepare(
+      "INSERT OR IGNORE INTO bans (kind, target_id, banned_by, created_at) VALUES ('user', ?, 'import', ?)"
+    );
+    for (const id of blocklist?.users ?? []) ban.run(id.toString(), now);
+  }
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import type { Migration } from './index.js';
+
+/**
+ * Read access to a group's library for other groups. `target` is `group:<gid>` or
+ * `circle:<name>`; circles are named sets of groups managed by the bot admins.
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'library_links',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS library_links (
+        owner_group TEXT NOT NULL,
+        target TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (owner_group, target)
+      );
+      CREATE INDEX IF NOT EXISTS idx_library_links_target ON library_links (target);
+      CREATE TABLE IF NOT EXISTS circle_members (
+        circle TEXT NOT NULL,
+        group_id TEXT NOT NULL,
+        added_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (circle, group_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_circle_members_group ON circle_members (group_id);
+    `);
+  }
+};
+
+export default migration;
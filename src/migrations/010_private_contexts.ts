@@ -0,0 +1,20 @@
+import type { Migration } from './index.js';
+
+/**
+ * Group whose library a user's private chat acts on, set with `qmoji ctx`.
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'private_contexts',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS private_contexts (
+        user_id TEXT PRIMARY KEY,
+        group_id TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+};
+
+export default migration;
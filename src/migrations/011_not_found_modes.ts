@@ -0,0 +1,22 @@
+import type { Migration } from './index.js';
+
+/**
+ * Folds the separate `fuzzy` group setting into `config.notfound`, which now takes
+ * `off`, `react`, `suggest` or `auto` instead of `on`/`off`.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'not_found_modes',
+  up: (db) => {
+    db.exec(`
+      UPDATE group_settings SET value = 'react' WHERE key = 'config.notfound' AND value = 'on';
+      INSERT INTO group_settings (group_id, key, value)
+        SELECT group_id, 'config.notfound', value FROM group_settings
+        WHERE key = 'fuzzy' AND value IN ('suggest', 'auto')
+        ON CONFLICT (group_id, key) DO UPDATE SET value = excluded.value;
+      DELETE FROM group_settings WHERE key = 'fuzzy';
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,121 @@
+import type Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import initial from './001_initial.js';
+import imageIndexes from './002_image_indexes.js';
+import quotas from './003_quotas.js';
+import auditLog from './004_audit_log.js';
+import trash from './005_trash.js';
+import useEvents from './006_use_events.js';
+import pins from './007_pins.js';
+import accessControl from './008_access_control.js';
+import libraryLinks from './009_library_links.js';
+import privateContexts from './010_private_contexts.js';
+import notFoundModes from './011_not_found_modes.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: number;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: Migration[];
+  lastBackup: string | null;
+}
+
+// Ordered by version; append new migrations to the end
+export const migrations: Migration[] = [
+  initial,
+  imageIndexes,
+  quotas,
+  auditLog,
+  trash,
+  useEvents,
+  pins,
+  accessControl,
+  libraryLinks,
+  privateContexts,
+  notFoundModes
+];
+
+let lastBackup: string | null = null;
+
+const ensureVersionTable = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+};
+
+const getAppliedMigrations = (db: Database.Database): AppliedMigration[] =>
+  db.prepare('SELECT * FROM schema_version ORDER BY version ASC').all() as AppliedMigration[];
+
+export const getMigrationStatus = (db: Database.Database): MigrationStatus => {
+  ensureVersionTable(db);
+  const applied = getAppliedMigrations(db);
+  const currentVersion = applied.length ? applied[applied.length - 1].version : 0;
+  return {
+    currentVersion,
+    latestVersion: migrations[migrations.length - 1].version,
+    applied,
+    pending: migrations.filter((m) => m.version > currentVersion),
+    lastBackup
+  };
+};
+
+/**
+ * Applies all pending migrations, each in its own transaction.
+ * An existing database is backed up next to it before anything is changed.
+ */
+export const runMigrations = async (db: Database.Database, dbPath: string): Promise<void> => {
+  const { currentVersion, pending } = getMigrationStatus(db);
+  if (!pending.length) return;
+
+  const hasTables = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_version', 'sqlite_sequence')"
+    )
+    .get();
+  if (hasTables) {
+    const backupDir = path.join(path.dirname(dbPath), 'backups');
+    if (!fs.existsSync(backupDir)) {
+      fs.mkdirSync(backupDir, { recursive: true });
+    }
+    const backupPath = path.join(backupDir, `qmoji-v${currentVersion}-${Date.now()}.db`);
+    await db.backup(backupPath);
+    lastBackup = backupPath;
+    console.log(`[qmoji] Backed up database to ${backupPath}`);
+  }
+
+  for (const migration of pending) {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(
+          migration.version,
+          migration.name,
+          Date.now()
+        );
+      })();
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed${lastBackup ? `; a backup is available at ${lastBackup}` : ''}`,
+        { cause: err }
+      );
+    }
+    console.log(`[qmoji] Applied migration ${migration.version} (${migration.name})`);
+  }
+};
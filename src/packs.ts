@@ -0,0 +1,251 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import db, {
+  addAlias,
+  addTags,
+  getAlias,
+  getAliases,
+  getImagesByNameAndUser,
+  getTags,
+  hasName,
+  insertImage,
+  setUseCount,
+  type BlobInfo,
+  type ImageRecord
+} from './db.js';
+import {
+  detectImageType,
+  downloadFile,
+  formatBytes,
+  hashBlob,
+  readImage,
+  storeBlob
+} from './utils.js';
+import { checkQuota } from './quotas.js';
+
+export type ImportMode = 'skip' | 'merge';
+
+// Limits on imported archives, so a crafted zip cannot exhaust memory
+const maxPackSize = 50 * 1024 * 1024;
+const maxPackFiles = 2000;
+const maxPackUncompressedSize = 200 * 1024 * 1024;
+
+export interface PackEntry {
+  name: string;
+  aliases: string[];
+  tags: string[];
+  use_count: number;
+  saved_by: string;
+  saved_from: string | null;
+  created_at: number;
+  file: string;
+}
+
+export interface PackManifest {
+  format: 'qmoji-pack';
+  version: 1;
+  exported_at: number;
+  scope: string;
+  entries: PackEntry[];
+}
+
+export interface ImportResult {
+  imported: number;
+  importedIds: string[];
+  duplicates: number;
+  invalid: number;
+  skippedNames: string[];
+  mergedNames: string[];
+}
+
+/**
+ * Builds a zip archive holding `manifest.json` and one `images/<hash>` file per distinct blob.
+ * Images whose files cannot be read are left out.
+ */
+export const exportPack = (images: ImageRecord[], scope: string): Buffer => {
+  const files: Zippable = {};
+  const entries: PackEntry[] = [];
+  for (const img of images) {
+    const file = `images/${img.blob_hash ?? img.id}`;
+    if (!(file in files)) {
+      try {
+        files[file] = readImage(img.file_path);
+      } catch (err) {
+        console.error(`[qmoji] Failed to read image ${img.file_path} for export:`, err);
+        continue;
+      }
+    }
+    entries.push({
+      name: img.name,
+      aliases: getAliases(img.name, img.user_id).map((a) => a.alias),
+      tags: getTags(img.id),
+      use_count: img.use_count,
+      saved_by: img.saved_by,
+      saved_from: img.saved_from,
+      created_at: img.created_at,
+      file
+    });
+  }
+  const manifest: PackManifest = {
+    format: 'qmoji-pack',
+    version: 1,
+    exported_at: Date.now(),
+    scope,
+    entries
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  // Images are already compressed, so only store them
+  return Buffer.from(zipSync(files, { level: 0 }));
+};
+
+const parsePack = (
+  buffer: Buffer
+): { manifest: PackManifest; files: Record<string, Uint8Array> } => {
+  let files: Record<string, Uint8Array>;
+  let count = 0;
+  let totalSize = 0;
+  let limitError: Error | null = null;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      // Sizes come from the archive headers; fflate never inflates an entry past its stated size
+      filter: (file) => {
+        count++;
+        totalSize += file.originalSize;
+        if (count > maxPackFiles) {
+          limitError = new Error(`压缩包中的文件过多，上限为 ${maxPackFiles} 个`);
+        } else if (totalSize > maxPackUncompressedSize) {
+          limitError = new Error(
+            `压缩包解压后过大，上限为 ${formatBytes(maxPackUncompressedSize)}`
+          );
+        }
+        // Stop before reading any further entries
+        if (limitError) throw limitError;
+        return true;
+      }
+    });
+  } catch {
+    throw limitError ?? new Error('无法解压文件，请确认其为 qmoji 导出的压缩包');
+  }
+  if (!files['manifest.json']) {
+    throw new Error('压缩包中缺少 manifest.json');
+  }
+  let manifest: PackManifest;
+  try {
+    manifest = JSON.parse(strFromU8(files['manifest.json']));
+  } catch {
+    throw new Error('manifest.json 格式错误');
+  }
+  if (manifest?.format !== 'qmoji-pack' || !Array.isArray(manifest.entries)) {
+    throw new Error('manifest.json 不是有效的 qmoji 表情包清单');
+  }
+  return { manifest, files };
+};
+
+const isValidEntry = (entry: PackEntry, files: Record<string, Uint8Array>) =>
+  typeof entry?.name === 'string' &&
+  entry.name.trim() !== '' &&
+  !/\s/.test(entry.name.trim()) &&
+  typeof entry.file === 'string' &&
+  entry.file in files &&
+  detectImageType(Buffer.from(files[entry.file])) !== null;
+
+/**
+ * Downloads an archive to import, refusing anything larger than an archive may be.
+ */
+export const downloadPack = (url: string): Promise<Buffer> => downloadFile(url, maxPackSize);
+
+/**
+ * Imports an archive produced by `exportPack` into a scope in a single transaction; image
+ * files are written only once it has committed.
+ * Names that already exist in the scope are skipped entirely in `skip` mode; in `merge`
+ * mode their new images are added, leaving out files the name already holds.
+ * Provenance, tags, aliases and use counts are carried over. Throws if the new images
+ * would exceed the scope's quota.
+ */
+export const importPack = (
+  buffer: Buffer,
+  userId: string,
+  importedBy: string,
+  mode: ImportMode = 'skip'
+): ImportResult => {
+  const { manifest, files } = parsePack(buffer);
+  const result: ImportResult = {
+    imported: 0,
+    importedIds: [],
+    duplicates: 0,
+    invalid: 0,
+    skippedNames: [],
+    mergedNames: []
+  };
+
+  // Decide what to import first so nothing is written to disk for a rolled-back transaction
+  const planned: { entry: PackEntry; name: string; data: Buffer; blob: BlobInfo }[] = [];
+  const conflicts = new Map<string, boolean>();
+  const seen = new Set<string>();
+  for (const entry of manifest.entries) {
+    if (!isValidEntry(entry, files)) {
+      result.invalid++;
+      continue;
+    }
+    const name = entry.name.trim().toLowerCase();
+    if (!conflicts.has(name)) {
+      const exists = hasName(name, userId);
+      conflicts.set(name, exists);
+      if (exists) (mode === 'skip' ? result.skippedNames : result.mergedNames).push(name);
+    }
+    if (conflicts.get(name) && mode === 'skip') continue;
+
+    const data = Buffer.from(files[entry.file]);
+    const blob = hashBlob(data);
+    if (
+      seen.has(`${name}/${blob.hash}`) ||
+      getImagesByNameAndUser(name, userId).some(
+        (img) => img.name === name && img.blob_hash === blob.hash
+      )
+    ) {
+      result.duplicates++;
+      continue;
+    }
+    seen.add(`${name}/${blob.hash}`);
+    planned.push({ entry, name, data, blob });
+  }
+
+  const quotaExceeded = checkQuota(
+    userId,
+    planned.map(({ blob }) => blob.size)
+  );
+  if (quotaExceeded) throw new Error(quotaExceeded);
+
+  db.transaction(() => {
+    for (const { entry, name, blob } of planned) {
+      const image = insertImage(
+        name,
+        blob,
+        userId,
+        typeof entry.saved_by === 'string' ? entry.saved_by : importedBy,
+        typeof entry.saved_from === 'string' ? entry.saved_from : null
+      );
+      if (Number.isInteger(entry.use_count) && entry.use_count > 0) {
+        setUseCount(image.id, entry.use_count);
+      }
+      if (Array.isArray(entry.tags)) {
+        addTags(
+          image.id,
+          entry.tags.filter((tag) => typeof tag === 'string' && tag).map((tag) => tag.toLowerCase())
+        );
+      }
+      for (const alias of Array.isArray(entry.aliases) ? entry.aliases : []) {
+        if (typeof alias !== 'string' || !alias) continue;
+        const normalized = alias.toLowerCase();
+        if (!hasName(normalized, userId) && !getAlias(normalized, userId)) {
+          addAlias(normalized, name, userId, importedBy);
+        }
+      }
+      result.imported++;
+      result.importedIds.push(image.id);
+    }
+  })();
+
+  for (const { data } of planned) storeBlob(data);
+
+  return result;
+};
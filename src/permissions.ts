@@ -0,0 +1,122 @@
+import type { AllHandlers, NCWebsocket } from 'node-napcat-ts';
+import config from './config.js';
+import { getGroupSetting, setGroupSetting } from './db.js';
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Group-scope operations whose minimum role each group can configure.
+ */
+export type GroupAction = 'save' | 'delete' | 'clear' | 'transfer' | 'rename';
+
+export const groupActions: GroupAction[] = ['save', 'delete', 'clear', 'transfer', 'rename'];
+
+export const groupRoles: GroupRole[] = ['member', 'admin', 'owner'];
+
+export const defaultGroupPermissions: Record<GroupAction, GroupRole> = {
+  save: 'member',
+  delete: 'admin',
+  clear: 'admin',
+  transfer: 'member',
+  rename: 'admin'
+};
+
+export const groupActionLabels: Record<GroupAction, string> = {
+  save: '保存',
+  delete: '删除',
+  clear: '清除',
+  transfer: '转移',
+  rename: '重命名'
+};
+
+export const groupRoleLabels: Record<GroupRole, string> = {
+  owner: '群主',
+  admin: '管理员',
+  member: '成员'
+};
+
+const rank = (role: GroupRole) => groupRoles.indexOf(role);
+
+export const isBotAdmin = (userId: number): boolean => config.admins?.includes(userId) ?? false;
+
+/**
+ * Asks NapCat for a user's current role in a group; null if they are not a member
+ * or NapCat could not tell.
+ */
+export const getMemberRole = async (
+  napcat: NCWebsocket,
+  groupId: number,
+  userId: number
+): Promise<GroupRole | null> => {
+  try {
+    const member = await napcat.get_group_member_info({
+      group_id: groupId,
+      user_id: userId,
+      no_cache: true
+    });
+    return member?.role ?? null;
+  } catch (err) {
+    console.error(`[qmoji] Failed to get role of ${userId} in group ${groupId}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Asks NapCat for the member's current role, falling back to the role attached to the message.
+ */
+export const getGroupRole = async (
+  napcat: NCWebsocket,
+  context: AllHandlers['message.group']
+): Promise<GroupRole> =>
+  (await getMemberRole(napcat, context.group_id, context.user_id)) ??
+  context.sender.role ??
+  'member';
+
+export const getRequiredRole = (groupId: number, action: GroupAction): GroupRole => {
+  const value = getGroupSetting(groupId.toString(), `permission.${action}`);
+  return value && groupRoles.includes(value as GroupRole)
+    ? (value as GroupRole)
+    : defaultGroupPermissions[action];
+};
+
+export const setRequiredRole = (groupId: number, action: GroupAction, role: GroupRole): void => {
+  setGroupSetting(groupId.toString(), `permission.${action}`, role);
+};
+
+/**
+ * Checks whether the sender may perform a group-scope action in the current group, or in
+ * `groupId` when acting on a group's library from private chat, where membership is looked up anew.
+ * Bot admins are always allowed.
+ */
+export const canPerformGroupAction = async (
+  napcat: NCWebsocket,
+  context: AllHandlers['message'],
+  action: GroupAction,
+  groupId: number | null = context.message_type === 'group' ? context.group_id : null
+): Promise<boolean> => {
+  if (isBotAdmin(context.user_id)) return true;
+  if (groupId === null) return false;
+  const required = getRequiredRole(groupId, action);
+  if (context.message_type === 'group' && context.group_id === groupId) {
+    return required === 'member' || rank(await getGroupRole(napcat, context)) >= rank(required);
+  }
+  // Acting on another group's library needs a confirmed membership even for members' actions
+  const role = await getMemberRole(napcat, groupId, context.user_id);
+  return role !== null && rank(role) >= rank(required);
+};
+
+/**
+ * Checks whether the sender may change the group's own settings (owners and admins only).
+ * Bot admins are always allowed.
+ */
+export const canManageGroup = async (
+  napcat: NCWebsocket,
+  context: AllHandlers['message']
+): Promise<boolean> => {
+  if (isBotAdmin(context.user_id)) return true;
+  if (context.message_type !== 'group') return false;
+  return rank(await getGroupRole(napcat, context)) >= rank('admin');
+};
+
+export const getPermissionDeniedMessage = (groupId: number, action: GroupAction): string =>
+  `权限不足：本群仅${groupRoleLabels[getRequiredRole(groupId, action)]}及以上可${groupActionLabels[action]}群聊表情。`;
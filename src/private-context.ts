@@ -0,0 +1,20 @@
+import { deletePrivateContext, getPrivateContext, setPrivateContext } from './db.js';
+
+/**
+ * Group whose library `userId`'s private chat acts on, or null for their own and global ones.
+ */
+export const getContextGroup = (userId: number): number | null => {
+  const groupId = getPrivateContext(userId.toString());
+  return groupId ? Number(groupId) : null;
+};
+
+/**
+ * Points the user's private chat at `groupId`; callers check membership first.
+ */
+export const switchContext = (userId: number, groupId: number): void =>
+  setPrivateContext(userId.toString(), groupId.toString());
+
+/**
+ * Returns false if the user had not switched to a group.
+ */
+export const resetContext = (userId: number): boolean => deletePrivateContext(userId.toString());
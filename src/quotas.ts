@@ -0,0 +1,92 @@
+import config from './config.js';
+import { getQuotaOverride, getScopeUsage, setQuotaOverride } from './db.js';
+import { formatBytes } from './utils.js';
+
+export type QuotaKind = 'personal' | 'group' | 'global';
+
+export type QuotaField = 'count' | 'size';
+
+export const quotaFields: QuotaField[] = ['count', 'size'];
+
+/**
+ * Limits in effect for a scope; null means unlimited.
+ */
+export type QuotaLimits = Record<QuotaField, number | null>;
+
+export const quotaKindLabels: Record<QuotaKind, string> = {
+  personal: '个人',
+  group: '群聊',
+  global: '全局'
+};
+
+const columns = { count: 'max_count', size: 'max_size' } as const;
+
+export const getQuotaKind = (scope: string): QuotaKind =>
+  scope === 'global' ? 'global' : scope.startsWith('chat-') ? 'group' : 'personal';
+
+/**
+ * Resolves a scope's limits: its override if set, otherwise the configured default for its kind.
+ */
+export const getQuotaLimits = (scope: string): QuotaLimits => {
+  const defaults = config.quotas?.[getQuotaKind(scope)] ?? {};
+  const override = getQuotaOverride(scope);
+  const resolve = (field: QuotaField) => {
+    const value = override?.[columns[field]] ?? defaults[field] ?? null;
+    return value === null || value < 0 ? null : value;
+  };
+  return { count: resolve('count'), size: resolve('size') };
+};
+
+/**
+ * Overrides one limit of a scope. `Infinity` lifts the limit; null restores the default.
+ */
+export const setQuotaLimit = (
+  scope: string,
+  field: QuotaField,
+  value: number | null,
+  updatedBy: string
+) => setQuotaOverride(scope, columns[field], value === Infinity ? -1 : value, updatedBy);
+
+/**
+ * Returns why saving files of the given sizes into a scope would exceed its quota,
+ * or null if they fit.
+ */
+export const checkQuota = (scope: string, sizes: number[]): string | null => {
+  const limits = getQuotaLimits(scope);
+  const usage = getScopeUsage(scope);
+  const label = quotaKindLabels[getQuotaKind(scope)];
+  if (limits.count !== null && usage.count + sizes.length > limits.count) {
+    return `超出${label}表情数量配额（已用 ${usage.count}/${limits.count} 个，本次需 ${sizes.length} 个）`;
+  }
+  const size = sizes.reduce((sum, s) => sum + s, 0);
+  if (limits.size !== null && usage.size + size > limits.size) {
+    return `超出${label}表情空间配额（已用 ${formatBytes(usage.size)}/${formatBytes(limits.size)}，本次需 ${formatBytes(size)}）`;
+  }
+  return null;
+};
+
+/**
+ * Describes a scope's usage against its limits, one line per limit.
+ */
+export const formatQuota = (scope: string): string => {
+  const limits = getQuotaLimits(scope);
+  const usage = getScopeUsage(scope);
+  return [
+    `数量：${usage.count}/${limits.count ?? '无限制'} 个` +
+      (limits.count !== null ? `，剩余 ${Math.max(limits.count - usage.count, 0)} 个` : ''),
+    `空间：${formatBytes(usage.size)}/${limits.size !== null ? formatBytes(limits.size) : '无限制'}` +
+      (limits.size !== null ? `，剩余 ${formatBytes(Math.max(limits.size - usage.size, 0))}` : '')
+  ].join('\n');
+};
+
+const sizeUnits: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/**
+ * Parses a quota value such as `500`, `20m` or `1.5GiB`. Sizes accept K/M/G suffixes;
+ * counts must be whole numbers. Returns null for anything else.
+ */
+export const parseQuotaValue = (field: QuotaField, value: string): number | null => {
+  if (field === 'count') return /^\d+$/.test(value) ? parseInt(value) : null;
+  const match = /^(\d+(?:\.\d+)?)([kmg]?)(?:i?b)?$/i.exec(value);
+  return match ? Math.floor(parseFloat(match[1]) * sizeUnits[match[2].toLowerCase()]) : null;
+};
@@ -0,0 +1,194 @@
+import config from './config.js';
+import { deleteGroupSetting, getGroupSetting, setGroupSetting } from './db.js';
+
+export type RateLimitAction = 'use' | 'save';
+
+/**
+ * Buckets a request draws from: the sender's, the chat group's, and one shared by everyone.
+ */
+export type RateLimitLevel = 'user' | 'group' | 'global';
+
+/**
+ * A token bucket holding up to `capacity` requests and regaining `perMinute` of them per minute.
+ */
+export interface BucketSpec {
+  capacity: number;
+  perMinute: number;
+}
+
+/**
+ * Bucket specs per level; null disables that level.
+ */
+export type RateLimits = Record<RateLimitLevel, BucketSpec | null>;
+
+export const rateLimitActions: RateLimitAction[] = ['use', 'save'];
+
+export const rateLimitLevels: RateLimitLevel[] = ['user', 'group', 'global'];
+
+/** Levels each group can override for itself. */
+export const groupRateLimitLevels: RateLimitLevel[] = ['user', 'group'];
+
+export const rateLimitActionLabels: Record<RateLimitAction, string> = {
+  use: '发送',
+  save: '保存'
+};
+
+export const rateLimitLevelLabels: Record<RateLimitLevel, string> = {
+  user: '每位用户',
+  group: '整个群聊',
+  global: '全局'
+};
+
+export const defaultRateLimits: Record<RateLimitAction, RateLimits> = {
+  use: {
+    user: { capacity: 5, perMinute: 10 },
+    group: { capacity: 20, perMinute: 40 },
+    global: { capacity: 60, perMinute: 120 }
+  },
+  save: {
+    user: { capacity: 5, perMinute: 5 },
+    group: { capacity: 20, perMinute: 20 },
+    global: { capacity: 60, perMinute: 60 }
+  }
+};
+
+/** Reaction (💤) acknowledging an over-limit message when `onLimit` is `react`. */
+export const rateLimitReaction = '128164';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+export const formatBucketSpec = (spec: BucketSpec | null) =>
+  spec ? `容量 ${spec.capacity}，每分钟恢复 ${spec.perMinute}` : '不限制';
+
+/**
+ * Parses `<capacity>/<perMinute>`, e.g. `5/10`.
+ */
+export const parseBucketSpec = (value: string): BucketSpec | null => {
+  const match = /^(\d+)\/(\d+(?:\.\d+)?)$/.exec(value);
+  if (!match || !parseInt(match[1]) || !parseFloat(match[2])) return null;
+  return { capacity: parseInt(match[1]), perMinute: parseFloat(match[2]) };
+};
+
+/**
+ * Resolves the limits for an action in a chat: the group's own setting, then config.json,
+ * then the built-in defaults.
+ */
+export const getRateLimits = (action: RateLimitAction, groupId: number | null): RateLimits => {
+  const resolve = (level: RateLimitLevel): BucketSpec | null => {
+    if (groupId !== null && groupRateLimitLevels.includes(level)) {
+      const value = getGroupSetting(groupId.toString(), `ratelimit.${action}.${level}`);
+      if (value === 'off') return null;
+      const spec = value ? parseBucketSpec(value) : null;
+      if (spec) return spec;
+    }
+    const configured = config.rateLimits?.[action]?.[level];
+    return configured !== undefined ? configured : defaultRateLimits[action][level];
+  };
+  return { user: resolve('user'), group: resolve('group'), global: resolve('global') };
+};
+
+/**
+ * Stores a group's override for one level; `off` disables it and null restores the default.
+ */
+export const setGroupRateLimit = (
+  groupId: number,
+  action: RateLimitAction,
+  level: RateLimitLevel,
+  spec: BucketSpec | 'off' | null
+): void => {
+  const key = `ratelimit.${action}.${level}`;
+  if (spec === null) {
+    deleteGroupSetting(groupId.toString(), key);
+  } else {
+    setGroupSetting(
+      groupId.toString(),
+      key,
+      spec === 'off' ? spec : `${spec.capacity}/${spec.perMinute}`
+    );
+  }
+};
+
+const bucketKeys = (action: RateLimitAction, userId: number, groupId: number | null) => ({
+  user: `${action}:user:${userId}`,
+  group: groupId !== null ? `${action}:group:${groupId}` : null,
+  global: `${action}:global`
+});
+
+const refill = (key: string, spec: BucketSpec, now: number): Bucket => {
+  const bucket = buckets.get(key) ?? { tokens: spec.capacity, updatedAt: now };
+  bucket.tokens = Math.min(
+    spec.capacity,
+    bucket.tokens + ((now - bucket.updatedAt) / 60_000) * spec.perMinute
+  );
+  bucket.updatedAt = now;
+  return bucket;
+};
+
+/**
+ * Takes one token from every bucket the request draws from. Nothing is taken unless all of
+ * them have a token left; the first exhausted level is returned instead.
+ */
+export const consumeRateLimit = (
+  action: RateLimitAction,
+  userId: number,
+  groupId: number | null
+): RateLimitLevel | null => {
+  const now = Date.now();
+  const limits = getRateLimits(action, groupId);
+  const keys = bucketKeys(action, userId, groupId);
+  const pending: Bucket[] = [];
+  for (const level of rateLimitLevels) {
+    const spec = limits[level];
+    const key = keys[level];
+    if (!spec || !key) continue;
+    const bucket = refill(key, spec, now);
+    buckets.set(key, bucket);
+    if (bucket.tokens < 1) return level;
+    pending.push(bucket);
+  }
+  pending.forEach((bucket) => bucket.tokens--);
+  return null;
+};
+
+/**
+ * Tokens currently left in each bucket the user draws from, or null for disabled levels.
+ */
+export const getRateLimitStatus = (
+  action: RateLimitAction,
+  userId: number,
+  groupId: number | null
+): Record<RateLimitLevel, { tokens: number; spec: BucketSpec } | null> => {
+  const now = Date.now();
+  const limits = getRateLimits(action, groupId);
+  const keys = bucketKeys(action, userId, groupId);
+  const status = (level: RateLimitLevel) => {
+    const spec = limits[level];
+    const key = keys[level];
+    if (!spec || !key) return null;
+    const bucket = buckets.get(key);
+    const tokens = bucket
+      ? Math.min(
+          spec.capacity,
+          bucket.tokens + ((now - bucket.updatedAt) / 60_000) * spec.perMinute
+        )
+      : spec.capacity;
+    return { tokens: Math.floor(tokens), spec };
+  };
+  return { user: status('user'), group: status('group'), global: status('global') };
+};
+
+/**
+ * Forgets buckets untouched for an hour. By then they have refilled under any sensible spec,
+ * so they behave the same as missing ones.
+ */
+export const pruneRateLimitBuckets = (): void => {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    if ((now - bucket.updatedAt) / 60_000 >= 60) buckets.delete(key);
+  }
+};
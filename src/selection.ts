@@ -0,0 +1,113 @@
+import { getGroupSetting, getPinnedImageId, setGroupSetting, type ImageRecord } from './db.js';
+import { random } from './utils.js';
+
+/**
+ * How `.name` picks one of several images:
+ * - `random`: uniformly at random
+ * - `norepeat`: at random, skipping the images most recently sent in the same chat
+ * - `weighted`: at random, weighted by how often each image has been used
+ * - `newest`: the most recently saved image
+ * - `pinned`: the sender's pinned favourite, falling back to random
+ */
+export type SelectionStrategy = 'random' | 'norepeat' | 'weighted' | 'newest' | 'pinned';
+
+export const selectionStrategies: SelectionStrategy[] = [
+  'random',
+  'norepeat',
+  'weighted',
+  'newest',
+  'pinned'
+];
+
+export const defaultSelectionStrategy: SelectionStrategy = 'random';
+
+export const selectionStrategyLabels: Record<SelectionStrategy, string> = {
+  random: '随机',
+  norepeat: '随机且避免重复',
+  weighted: '按使用次数加权随机',
+  newest: '最新保存',
+  pinned: '优先使用置顶'
+};
+
+// Short forms accepted inline, e.g. `.name new`
+const strategyAliases: Record<string, SelectionStrategy> = {
+  rand: 'random',
+  fresh: 'norepeat',
+  hot: 'weighted',
+  new: 'newest',
+  pin: 'pinned'
+};
+
+// How many recently sent images per chat `norepeat` avoids
+const recentLimit = 5;
+
+const recentByChat = new Map<string, string[]>();
+
+export const parseSelectionStrategy = (value: string): SelectionStrategy | null =>
+  selectionStrategies.includes(value as SelectionStrategy)
+    ? (value as SelectionStrategy)
+    : (strategyAliases[value] ?? null);
+
+export const getSelectionStrategy = (groupId: number | null): SelectionStrategy => {
+  if (groupId === null) return defaultSelectionStrategy;
+  const value = getGroupSetting(groupId.toString(), 'selection');
+  return value && selectionStrategies.includes(value as SelectionStrategy)
+    ? (value as SelectionStrategy)
+    : defaultSelectionStrategy;
+};
+
+export const setSelectionStrategy = (groupId: number, strategy: SelectionStrategy): void => {
+  setGroupSetting(groupId.toString(), 'selection', strategy);
+};
+
+const pickWeighted = (images: ImageRecord[]): ImageRecord => {
+  // +1 so that unused images still have a chance
+  const total = images.reduce((sum, img) => sum + img.use_count + 1, 0);
+  let threshold = Math.random() * total;
+  for (const img of images) {
+    threshold -= img.use_count + 1;
+    if (threshold < 0) return img;
+  }
+  return images[images.length - 1];
+};
+
+/**
+ * Picks one image with the given strategy and remembers it as sent in `chatKey`.
+ */
+export const selectImage = (
+  images: ImageRecord[],
+  strategy: SelectionStrategy,
+  userId: string,
+  chatKey: string
+): ImageRecord => {
+  const recent = recentByChat.get(chatKey) ?? [];
+  let selected: ImageRecord | undefined;
+  switch (strategy) {
+    case 'norepeat': {
+      // Always leave at least one candidate
+      const avoided = new Set(recent.slice(-Math.min(recentLimit, images.length - 1)));
+      selected = random(images.filter((img) => !avoided.has(img.id)));
+      break;
+    }
+    case 'weighted':
+      selected = pickWeighted(images);
+      break;
+    case 'newest':
+      selected = images.reduce((a, b) => (b.created_at > a.created_at ? b : a));
+      break;
+    case 'pinned': {
+      const pinned = getPinnedImageId(
+        userId,
+        images.map((img) => img.id)
+      );
+      selected = images.find((img) => img.id === pinned);
+      break;
+    }
+  }
+  selected ??= random(images);
+  recentByChat.set(
+    chatKey,
+    [...recent.filter((id) => id !== selected.id), selected.id].slice(-recentLimit)
+  );
+  return selected;
+};
@@ -0,0 +1,248 @@
+import { Hono } from 'hono';
+import {
+  deleteImageById,
+  deleteImagesBySavedBy,
+  getAlias,
+  getAliases,
+  getAllImages,
+  getImageById,
+  getImageSizes,
+  getScopeStats,
+  getTags,
+  hasName,
+  mergeImages,
+  renameImages,
+  searchAllImages,
+  transferImagesOwnership,
+  type ImageRecord
+} from '../db.js';
+import { detectImageType, imageMimeTypes, readImage } from '../utils.js';
+import { allow, ban, disallow, getAllowlist, getBans, unban } from '../access.js';
+import { recordAudit } from '../audit.js';
+import { checkQuota } from '../quotas.js';
+
+// Actor recorded for changes made through the HTTP API
+const actor = 'http';
+
+const isScope = (value: unknown): value is string =>
+  typeof value === 'string' && /^(global|chat-\d+|\d+)$/.test(value);
+
+const toView = (img: ImageRecord) => ({
+  ...img,
+  tags: getTags(img.id),
+  aliases: getAliases(img.name, img.user_id).map((a) => a.alias)
+});
+
+// Pending submissions and trashed images stay hidden, as in the listing
+const getVisibleImage = (id: string) => {
+  const img = getImageById(id);
+  return img?.status === 'approved' ? img : undefined;
+};
+
+const api = new Hono();
+
+api.get('/images', (c) => {
+  const { q, scope, name, saved_by: savedBy } = c.req.query();
+  const page = Math.max(parseInt(c.req.query('page') ?? '') || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(c.req.query('page_size') ?? '') || 50, 1), 200);
+  const images = (q ? searchAllImages(q) : getAllImages()).filter(
+    (img) =>
+      (!scope || img.user_id === scope) &&
+      (!name || img.name === name) &&
+      (!savedBy || img.saved_by === savedBy)
+  );
+  return c.json({
+    total: images.length,
+    page,
+    page_size: pageSize,
+    items: images.slice((page - 1) * pageSize, page * pageSize).map(toView)
+  });
+});
+
+api.get('/images/:id', (c) => {
+  const img = getVisibleImage(c.req.param('id'));
+  return img ? c.json(toView(img)) : c.json({ error: 'Image not found' }, 404);
+});
+
+api.get('/images/:id/file', (c) => {
+  const img = getVisibleImage(c.req.param('id'));
+  if (!img) return c.json({ error: 'Image not found' }, 404);
+  let buffer: Buffer;
+  try {
+    buffer = readImage(img.file_path);
+  } catch {
+    return c.json({ error: 'Image file is missing' }, 404);
+  }
+  const type = detectImageType(buffer);
+  return c.body(new Uint8Array(buffer), 200, {
+    'Content-Type': type ? imageMimeTypes[type] : 'application/octet-stream',
+    'Cache-Control': 'private, max-age=86400'
+  });
+});
+
+api.delete('/images/:id', (c) => {
+  const image = getImageById(c.req.param('id'));
+  if (!image || !deleteImageById(image.id, actor)) {
+    return c.json({ error: 'Image not found' }, 404);
+  }
+  recordAudit({
+    action: 'delete',
+    actor,
+    scope: image.user_id,
+    name: image.name,
+    imageIds: [image.id]
+  });
+  console.log(`[qmoji] Deleted image ${c.req.param('id')} via ${actor}`);
+  return c.json({ deleted: 1 });
+});
+
+api.post('/rename', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const { user_id: userId, from, to, merge } = body ?? {};
+  if (
+    !isScope(userId) ||
+    typeof from !== 'string' ||
+    typeof to !== 'string' ||
+    !from.trim() ||
+    !to.trim()
+  ) {
+    return c.json({ error: 'Expected { user_id, from, to, merge? }' }, 400);
+  }
+  const source = from.trim().toLowerCase();
+  const target = to.trim().toLowerCase();
+  if (source === target) {
+    return c.json({ error: '"from" and "to" must differ' }, 400);
+  }
+  if (!hasName(source, userId)) {
+    return c.json({ error: `Name "${source}" not found in ${userId}` }, 404);
+  }
+  const exists = hasName(target, userId);
+  if (exists && !merge) {
+    return c.json({ error: `Name "${target}" already exists in ${userId}; pass merge: true` }, 409);
+  }
+  const alias = exists ? undefined : getAlias(target, userId);
+  if (alias && alias.name !== source) {
+    return c.json({ error: `Name "${target}" is an alias of "${alias.name}" in ${userId}` }, 409);
+  }
+  const changedIds = exists
+    ? mergeImages(source, target, userId, actor)
+    : renameImages(source, target, userId);
+  recordAudit({
+    action: exists ? 'merge' : 'rename',
+    actor,
+    scope: userId,
+    name: source,
+    imageIds: changedIds,
+    details: { to: target }
+  });
+  console.log(`[qmoji] Renamed ${source} -> ${target} in ${userId} via ${actor}`);
+  return c.json({ renamed: changedIds.length, merged: exists });
+});
+
+api.post('/transfer', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const { ids, user_id: userId } = body ?? {};
+  if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string') || !isScope(userId)) {
+    return c.json({ error: 'Expected { ids: string[], user_id }' }, 400);
+  }
+  const quotaExceeded = checkQuota(userId, getImageSizes(ids));
+  if (quotaExceeded) {
+    return c.json({ error: quotaExceeded }, 403);
+  }
+  const transferredIds = transferImagesOwnership(ids, userId);
+  recordAudit({ action: 'transfer', actor, imageIds: transferredIds, details: { to: userId } });
+  console.log(`[qmoji] Transferred ${transferredIds.length} images to ${userId} via ${actor}`);
+  return c.json({ transferred: transferredIds.length });
+});
+
+api.get('/stats', (c) => {
+  const scopes = getScopeStats();
+  return c.json({
+    total: {
+      count: scopes.reduce((sum, s) => sum + s.count, 0),
+      total_uses: scopes.reduce((sum, s) => sum + s.total_uses, 0),
+      total_size: scopes.reduce((sum, s) => sum + s.total_size, 0)
+    },
+    scopes
+  });
+});
+
+api.get('/allowlist', (c) => c.json(getAllowlist()));
+
+api.put('/allowlist/:kind{users|groups}/:id{[0-9]+}', (c) => {
+  const kind = c.req.param('kind') === 'users' ? 'user' : 'group';
+  const id = parseInt(c.req.param('id'));
+  if (allow(kind, id, actor)) {
+    recordAudit({ action: 'allowlist.add', actor, details: { target: `${kind}:${id}` } });
+    console.log(`[qmoji] Added ${kind} ${id} to allowlist via ${actor}`);
+  }
+  return c.json(getAllowlist());
+});
+
+api.delete('/allowlist/:kind{users|groups}/:id{[0-9]+}', (c) => {
+  const kind = c.req.param('kind') === 'users' ? 'user' : 'group';
+  const id = parseInt(c.req.param('id'));
+  if (disallow(kind, id)) {
+    recordAudit({ action: 'allowlist.remove', actor, details: { target: `${kind}:${id}` } });
+    console.log(`[qmoji] Removed ${kind} ${id} from allowlist via ${actor}`);
+  }
+  return c.json(getAllowlist());
+});
+
+api.get('/blocklist', (c) => c.json({ bans: getBans() }));
+
+// Body (optional): { groupId?: number, reason?: string, duration?: number (ms) }
+api.put('/blocklist/:kind{users|groups}/:id{[0-9]+}', async (c) => {
+  const kind = c.req.param('kind') === 'users' ? 'user' : 'group';
+  const id = parseInt(c.req.param('id'));
+  const body = (await c.req.json().catch(() => ({}))) as {
+    groupId?: unknown;
+    reason?: unknown;
+    duration?: unknown;
+  };
+  const groupId = typeof body.groupId === 'number' ? body.groupId : null;
+  const reason = typeof body.reason === 'string' ? body.reason : null;
+  const duration = typeof body.duration === 'number' && body.duration > 0 ? body.duration : null;
+  if (groupId !== null && kind === 'group') {
+    return c.json({ error: 'groupId only applies to user bans' }, 400);
+  }
+  const created = ban(kind, id, actor, { groupId, reason, duration });
+  recordAudit({
+    action: 'blocklist.add',
+    actor,
+    details: { target: `${kind}:${id}`, group: groupId, reason, expiresAt: created.expires_at }
+  });
+  // Same as the chat command: a permanent ban on a user everywhere also deletes
+  // everything they saved
+  let deleted = 0;
+  if (kind === 'user' && groupId === null && !duration) {
+    const deletedIds = deleteImagesBySavedBy(id.toString(), actor);
+    deleted = deletedIds.length;
+    recordAudit({
+      action: 'blocklist.purge',
+      actor,
+      imageIds: deletedIds,
+      details: { target: `user:${id}` }
+    });
+  }
+  console.log(`[qmoji] Banned ${kind} ${id} via ${actor}, deleted ${deleted} images`);
+  return c.json({ ban: created, deleted });
+});
+
+api.delete('/blocklist/:kind{users|groups}/:id{[0-9]+}', (c) => {
+  const kind = c.req.param('kind') === 'users' ? 'user' : 'group';
+  const id = parseInt(c.req.param('id'));
+  const groupId = c.req.query('groupId');
+  const groupIdNumber = groupId && /^\d+$/.test(groupId) ? parseInt(groupId) : null;
+  if (unban(kind, id, groupIdNumber)) {
+    recordAudit({
+      action: 'blocklist.remove',
+      actor,
+      details: { target: `${kind}:${id}`, group: groupIdNumber }
+    });
+    console.log(`[qmoji] Lifted ban on ${kind} ${id} via ${actor}`);
+  }
+  return c.json({ bans: getBans() });
+});
+
+export default api;
@@ -0,0 +1,130 @@
+const style = `
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f5f5f5; color: #222; }
+  header { position: sticky; top: 0; background: #fff; padding: 12px 16px; box-shadow: 0 1px 4px #0002; display: flex; gap: 8px; flex-wrap: wrap; align-items: center; }
+  header input, header button { padding: 6px 10px; font-size: 14px; }
+  #stats { margin-left: auto; color: #666; font-size: 13px; }
+  main { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; padding: 16px; }
+  .card { background: #fff; border-radius: 8px; padding: 8px; box-shadow: 0 1px 3px #0001; display: flex; flex-direction: column; gap: 4px; font-size: 13px; }
+  .card img { width: 100%; height: 140px; object-fit: contain; background: #fafafa; border-radius: 4px; }
+  .card .name { font-weight: 600; word-break: break-all; }
+  .card .meta { color: #666; word-break: break-all; }
+  .card .actions { display: flex; gap: 4px; }
+  .card .actions button { flex: 1; }
+  footer { display: flex; justify-content: center; gap: 8px; padding: 0 16px 16px; }
+`;
+
+// Plain browser script; the token is kept in localStorage and sent with every request
+const script = `
+  const $ = (id) => document.getElementById(id);
+  let page = 1;
+  const token = () => localStorage.getItem('qmoji-token') || '';
+  const request = async (path, options = {}) => {
+    const response = await fetch('/api' + path, {
+      ...options,
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer ' + token() }
+    });
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.error || response.statusText);
+    return body;
+  };
+  const formatBytes = (n) => {
+    const units = ['B', 'KiB', 'MiB', 'GiB'];
+    let i = 0;
+    while (n >= 1024 && i < units.length - 1) { n /= 1024; i++; }
+    return n.toFixed(i ? 2 : 0) + ' ' + units[i];
+  };
+  const scopeLabel = (id) => id === 'global' ? '全局' : id.startsWith('chat-') ? '群 ' + id.slice(5) : '用户 ' + id;
+  const card = (img) => {
+    const el = document.createElement('div');
+    el.className = 'card';
+    const image = document.createElement('img');
+    image.loading = 'lazy';
+    image.src = '/api/images/' + img.id + '/file?token=' + encodeURIComponent(token());
+    const name = document.createElement('div');
+    name.className = 'name';
+    name.textContent = img.name + (img.aliases.length ? ' (' + img.aliases.join(', ') + ')' : '');
+    const meta = document.createElement('div');
+    meta.className = 'meta';
+    meta.textContent = scopeLabel(img.user_id) + ' · ' + img.use_count + ' 次' +
+      (img.tags.length ? ' · ' + img.tags.map((t) => '#' + t).join(' ') : '');
+    const actions = document.createElement('div');
+    actions.className = 'actions';
+    const rename = document.createElement('button');
+    rename.textContent = '重命名';
+    rename.onclick = async () => {
+      const to = prompt('将「' + img.name + '」(' + scopeLabel(img.user_id) + ') 重命名为：', img.name);
+      if (!to || to === img.name) return;
+      try {
+        await request('/rename', { method: 'POST', body: JSON.stringify({ user_id: img.user_id, from: img.name, to }) });
+      } catch (err) {
+        if (!String(err.message).includes('merge') || !confirm('名称已存在，是否合并？')) return alert(err.message);
+        await request('/rename', { method: 'POST', body: JSON.stringify({ user_id: img.user_id, from: img.name, to, merge: true }) });
+      }
+      load();
+    };
+    const remove = document.createElement('button');
+    remove.textContent = '删除';
+    remove.onclick = async () => {
+      if (!confirm('确定删除这个「' + img.name + '」吗？')) return;
+      await request('/images/' + img.id, { method: 'DELETE' }).catch((err) => alert(err.message));
+      load();
+    };
+    actions.append(rename, remove);
+    el.append(image, name, meta, actions);
+    return el;
+  };
+  const load = async () => {
+    const params = new URLSearchParams({ page: String(page), page_size: '60' });
+    if ($('q').value) params.set('q', $('q').value);
+    if ($('scope').value) params.set('scope', $('scope').value);
+    try {
+      const [list, stats] = await Promise.all([request('/images?' + params), request('/stats')]);
+      $('grid').replaceChildren(...list.items.map(card));
+      const pages = Math.max(Math.ceil(list.total / list.page_size), 1);
+      $('page').textContent = page + ' / ' + pages + ' (' + list.total + ')';
+      $('prev').disabled = page <= 1;
+      $('next').disabled = page >= pages;
+      $('stats').textContent = '共 ' + stats.total.count + ' 个表情 · 使用 ' + stats.total.total_uses + ' 次 · ' + formatBytes(stats.total.total_size);
+    } catch (err) {
+      $('grid').replaceChildren(document.createTextNode('加载失败：' + err.message));
+    }
+  };
+  $('token').value = token();
+  $('token').onchange = () => { localStorage.setItem('qmoji-token', $('token').value); load(); };
+  $('search').onclick = () => { page = 1; load(); };
+  $('q').onkeydown = (e) => { if (e.key === 'Enter') { page = 1; load(); } };
+  $('prev').onclick = () => { page--; load(); };
+  $('next').onclick = () => { page++; load(); };
+  load();
+`;
+
+/**
+ * Single-page gallery for browsing and curating the library through the admin API.
+ */
+export const Gallery = () => (
+  <html lang="zh-CN">
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>qmoji</title>
+      <style dangerouslySetInnerHTML={{ __html: style }} />
+    </head>
+    <body>
+      <header>
+        <strong>qmoji</strong>
+        <input id="token" type="password" placeholder="访问令牌" />
+        <input id="q" placeholder="搜索名称、别名或标签" />
+        <input id="scope" placeholder="层级 (global / chat-群号 / QQ号)" />
+        <button id="search">搜索</button>
+        <span id="stats" />
+      </header>
+      <main id="grid" />
+      <footer>
+        <button id="prev">上一页</button>
+        <span id="page" />
+        <button id="next">下一页</button>
+      </footer>
+      <script dangerouslySetInnerHTML={{ __html: script }} />
+    </body>
+  </html>
+);
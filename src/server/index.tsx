@@ -0,0 +1,57 @@
+import { serve, type ServerType } from '@hono/node-server';
+import { Hono } from 'hono';
+import { timingSafeEqual } from 'crypto';
+import config from '../config.js';
+import api from './api.js';
+import { Gallery } from './gallery.js';
+
+const httpConfig = config.http;
+
+const matchesToken = (candidate: string | undefined, token: string): boolean => {
+  if (!candidate) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const createApp = (token: string) => {
+  const app = new Hono();
+
+  app.get('/', (c) => c.html(<Gallery />));
+
+  // `?token=` is accepted as well so that <img> tags in the gallery can load files
+  app.use('/api/*', async (c, next) => {
+    const header = c.req.header('Authorization');
+    const candidate = header?.startsWith('Bearer ') ? header.slice(7) : c.req.query('token');
+    if (!matchesToken(candidate, token)) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    await next();
+  });
+
+  app.route('/api', api);
+
+  app.onError((err, c) => {
+    console.error('[qmoji] HTTP request failed:', err);
+    return c.json({ error: 'Internal server error' }, 500);
+  });
+
+  return app;
+};
+
+/**
+ * Starts the admin API and gallery if `http.enabled` is set in `config.json`.
+ * Binds to localhost unless `http.host` says otherwise, and refuses to start without a token.
+ */
+export const startServer = (): ServerType | null => {
+  if (!httpConfig?.enabled) return null;
+  if (!httpConfig.token) {
+    console.error('[qmoji] HTTP server is enabled but http.token is not set; not starting.');
+    return null;
+  }
+  const hostname = httpConfig.host ?? '127.0.0.1';
+  return serve(
+    { fetch: createApp(httpConfig.token).fetch, hostname, port: httpConfig.port ?? 3080 },
+    (info) => console.log(`[qmoji] HTTP server listening on http://${hostname}:${info.port}`)
+  );
+};
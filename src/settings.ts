@@ -0,0 +1,224 @@
+import config, { type Config } from './config.js';
+import { deleteGroupSetting, getGroupSetting, setGroupSetting } from './db.js';
+
+export type PrefixKind = keyof Config['prefixes'];
+
+/**
+ * What to do when `.name` finds nothing:
+ * - `off`: nothing
+ * - `react`: react to the message (reply in private chats)
+ * - `suggest`: reply with the closest visible names, or react if there are none
+ * - `auto`: send the closest name if the match is confident, otherwise suggest
+ */
+export type NotFoundMode = 'off' | 'react' | 'suggest' | 'auto';
+
+export const notFoundModes: NotFoundMode[] = ['off', 'react', 'suggest', 'auto'];
+
+export const notFoundModeLabels: Record<NotFoundMode, string> = {
+  off: '不回应',
+  react: '回应',
+  suggest: '推荐相近名称',
+  auto: '自动发送最相近的表情'
+};
+
+/**
+ * Settings resolved for one chat: the group's overrides on top of `config.json`.
+ */
+export interface ChatSettings {
+  prefixes: Config['prefixes'];
+  notFound: NotFoundMode;
+  showGlobal: boolean;
+  personalSave: boolean;
+  listScope: string;
+  inlineTriggers: boolean;
+  inlineLimit: number;
+}
+
+// Keys are lowercase since commands are lowercased before parsing
+export type SettingKey =
+  | 'prefix.save'
+  | 'prefix.group'
+  | 'prefix.global'
+  | 'prefix.use'
+  | 'prefix.utils'
+  | 'notfound'
+  | 'global'
+  | 'personal'
+  | 'listscope'
+  | 'inline'
+  | 'inline.max';
+
+interface SettingDefinition {
+  label: string;
+  usage: string;
+  /** Returns the value to store, or an error message */
+  parse: (args: string[], current: ChatSettings) => { value: string } | { error: string };
+  apply: (settings: ChatSettings, value: string) => void;
+  format: (settings: ChatSettings) => string;
+}
+
+export const maxInlineLimit = 10;
+
+const prefixKinds: Record<string, PrefixKind> = {
+  'prefix.save': 'save',
+  'prefix.group': 'groupSave',
+  'prefix.global': 'globalSave',
+  'prefix.use': 'use',
+  'prefix.utils': 'utils'
+};
+
+const parseSwitch = (args: string[]) =>
+  args[0] === 'on' || args[0] === 'off' ? { value: args[0] } : { error: '请指定 on 或 off。' };
+
+const prefixSetting = (kind: PrefixKind, label: string): SettingDefinition => ({
+  label,
+  usage: kind === 'utils' ? '<命令名> [...]' : '<单个字符> [...]',
+  parse: (args, current) => {
+    const prefixes = [...new Set(args)];
+    if (!prefixes.length) return { error: '请至少指定一个前缀。' };
+    if (kind !== 'utils' && prefixes.some((prefix) => [...prefix].length !== 1)) {
+      return { error: '前缀须为单个字符。' };
+    }
+    if (prefixes.some((prefix) => /^[\p{L}\p{N}]$/u.test(prefix))) {
+      return { error: '前缀不能是单个字母或数字。' };
+    }
+    const clash = (Object.keys(current.prefixes) as PrefixKind[])
+      .filter((other) => other !== kind && other !== 'utils')
+      .find((other) => current.prefixes[other].some((prefix) => prefixes.includes(prefix)));
+    if (kind !== 'utils' && clash) {
+      return { error: `前缀与${settingDefinitions[prefixKeyOf(clash)].label}冲突。` };
+    }
+    return { value: prefixes.join(' ') };
+  },
+  apply: (settings, value) => {
+    settings.prefixes[kind] = value.split(' ');
+  },
+  format: (settings) => settings.prefixes[kind].join(' ')
+});
+
+const prefixKeyOf = (kind: PrefixKind) =>
+  Object.keys(prefixKinds).find((key) => prefixKinds[key] === kind) as SettingKey;
+
+export const settingDefinitions: Record<SettingKey, SettingDefinition> = {
+  'prefix.save': prefixSetting('save', '个人表情保存前缀'),
+  'prefix.group': prefixSetting('groupSave', '群聊表情保存前缀'),
+  'prefix.global': prefixSetting('globalSave', '全局表情投稿前缀'),
+  'prefix.use': prefixSetting('use', '表情发送前缀'),
+  'prefix.utils': prefixSetting('utils', '管理命令名'),
+  notfound: {
+    label: '未找到表情时的行为',
+    usage: `{${notFoundModes.join('/')}}`,
+    parse: (args) =>
+      notFoundModes.includes(args[0] as NotFoundMode)
+        ? { value: args[0] }
+        : { error: `请指定 ${notFoundModes.join('、')} 之一。` },
+    apply: (settings, value) => {
+      settings.notFound = value as NotFoundMode;
+    },
+    format: (settings) => `${settings.notFound} (${notFoundModeLabels[settings.notFound]})`
+  },
+  global: {
+    label: '显示全局表情',
+    usage: '{on/off}',
+    parse: parseSwitch,
+    apply: (settings, value) => {
+      settings.showGlobal = value === 'on';
+    },
+    format: (settings) => (settings.showGlobal ? 'on' : 'off')
+  },
+  personal: {
+    label: '允许保存个人表情',
+    usage: '{on/off}',
+    parse: parseSwitch,
+    apply: (settings, value) => {
+      settings.personalSave = value === 'on';
+    },
+    format: (settings) => (settings.personalSave ? 'on' : 'off')
+  },
+  listscope: {
+    label: '表情列表默认范围',
+    usage: '<p/c/g 的组合>',
+    parse: (args) =>
+      args[0] && /^[pcg]+$/.test(args[0])
+        ? { value: [...new Set(args[0])].join('') }
+        : { error: '请使用 p (个人)、c (群聊)、g (全局) 的组合，例如 pc。' },
+    apply: (settings, value) => {
+      settings.listScope = value;
+    },
+    format: (settings) => settings.listScope
+  },
+  inline: {
+    label: '消息中的多个或行内表情',
+    usage: '{on/off}',
+    parse: parseSwitch,
+    apply: (settings, value) => {
+      settings.inlineTriggers = value === 'on';
+    },
+    format: (settings) => (settings.inlineTriggers ? 'on' : 'off')
+  },
+  'inline.max': {
+    label: '每条消息最多发送的表情数',
+    usage: `<1-${maxInlineLimit}>`,
+    parse: (args) => {
+      const limit = Number(args[0]);
+      return Number.isInteger(limit) && limit >= 1 && limit <= maxInlineLimit
+        ? { value: limit.toString() }
+        : { error: `请指定 1 到 ${maxInlineLimit} 之间的整数。` };
+    },
+    apply: (settings, value) => {
+      settings.inlineLimit = parseInt(value);
+    },
+    format: (settings) => settings.inlineLimit.toString()
+  }
+};
+
+export const settingKeys = Object.keys(settingDefinitions) as SettingKey[];
+
+const storageKey = (key: SettingKey) => `config.${key}`;
+
+const getDefaults = (): ChatSettings => ({
+  prefixes: {
+    save: [...config.prefixes.save],
+    groupSave: [...config.prefixes.groupSave],
+    globalSave: [...config.prefixes.globalSave],
+    use: [...config.prefixes.use],
+    utils: [...config.prefixes.utils]
+  },
+  notFound: config.reactOnNotFound ? 'react' : 'off',
+  showGlobal: true,
+  personalSave: true,
+  listScope: 'pcg',
+  inlineTriggers: false,
+  inlineLimit: 3
+});
+
+/**
+ * Resolves the settings for a group, or the `config.json` defaults for private chats.
+ */
+export const getChatSettings = (groupId: number | null): ChatSettings => {
+  const settings = getDefaults();
+  if (groupId === null) return settings;
+  for (const key of settingKeys) {
+    const value = getGroupSetting(groupId.toString(), storageKey(key));
+    if (value !== undefined) settingDefinitions[key].apply(settings, value);
+  }
+  return settings;
+};
+
+export const isGroupSettingOverridden = (groupId: number, key: SettingKey): boolean =>
+  getGroupSetting(groupId.toString(), storageKey(key)) !== undefined;
+
+/**
+ * Validates and stores a group override; `default` removes it.
+ * Returns an error message on invalid input.
+ */
+export const setChatSetting = (groupId: number, key: SettingKey, args: string[]): string | null => {
+  if (args[0] === 'default') {
+    deleteGroupSetting(groupId.toString(), storageKey(key));
+    return null;
+  }
+  const result = settingDefinitions[key].parse(args, getChatSettings(groupId));
+  if ('error' in result) return result.error;
+  setGroupSetting(groupId.toString(), storageKey(key), result.value);
+  return null;
+};
@@ -0,0 +1,33 @@
+import { recordAudit } from './audit.js';
+import config from './config.js';
+import { purgeTrash } from './db.js';
+import { purgeOrphanedBlobs } from './utils.js';
+
+export const defaultRetentionDays = 30;
+
+export const getRetentionDays = (): number => config.trash?.retentionDays ?? defaultRetentionDays;
+
+/**
+ * Time left before a trashed image is purged, e.g. `3 天` or `5 小时`.
+ */
+export const formatTimeLeft = (deletedAt: number): string => {
+  const hours = Math.max(
+    Math.ceil((deletedAt + getRetentionDays() * 86_400_000 - Date.now()) / 3_600_000),
+    0
+  );
+  return hours >= 24 ? `${Math.floor(hours / 24)} 天` : `${hours} 小时`;
+};
+
+/**
+ * Permanently deletes trash entries past the retention period, along with files that nothing
+ * else references. Returns the number of images purged.
+ */
+export const purgeExpiredTrash = (): number => {
+  const purged = purgeTrash(Date.now() - getRetentionDays() * 86_400_000);
+  if (purged.length) {
+    purgeOrphanedBlobs();
+    recordAudit({ action: 'purge', actor: 'system', imageIds: purged.map((img) => img.id) });
+    console.log(`[qmoji] Purged ${purged.length} expired images from the trash`);
+  }
+  return purged.length;
+};
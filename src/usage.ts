@@ -0,0 +1,39 @@
+import { rollUpUseEvents } from './db.js';
+
+export type UseWindow = 'day' | 'week' | 'month' | 'all';
+
+export const useWindows: UseWindow[] = ['day', 'week', 'month', 'all'];
+
+export const useWindowLabels: Record<UseWindow, string> = {
+  day: '近 1 天',
+  week: '近 7 天',
+  month: '近 30 天',
+  all: '全部'
+};
+
+const windowDays: Record<UseWindow, number | null> = { day: 1, week: 7, month: 30, all: null };
+
+/**
+ * Raw events are kept this long before being rolled up by day, which covers every window
+ * except `all` with exact timestamps.
+ */
+export const eventRetentionDays = 31;
+
+/**
+ * Start of a window as a timestamp, or undefined for `all`.
+ */
+export const getWindowStart = (window: UseWindow): number | undefined => {
+  const days = windowDays[window];
+  return days === null ? undefined : Date.now() - days * 86_400_000;
+};
+
+/**
+ * Folds events past the retention period into daily rollups so the events table stays bounded.
+ */
+export const rollUpOldUses = (): number => {
+  const rolled = rollUpUseEvents(Date.now() - eventRetentionDays * 86_400_000);
+  if (rolled) {
+    console.log(`[qmoji] Rolled up ${rolled} use events`);
+  }
+  return rolled;
+};
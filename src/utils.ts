@@ -1,65 +1,247 @@
 import fs from 'fs';
-import path, { resolve } from 'path';
-import { fileURLToPath } from 'url';
-import config from '../config.json' with { type: 'json' };
+import path from 'path';
+import { createHash } from 'crypto';
+import config, { dataDir, rootDir, type DownloadConfig } from './config.js';
+import { attachBlob, getImagesWithoutBlob, takeOrphanedBlobs, type BlobInfo } from './db.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+export type ImageType = 'png' | 'jpeg' | 'gif' | 'webp';
 
-export const allowlistPath = resolve(__dirname, '../allowlist.json');
-export const blocklistPath = resolve(__dirname, '../blocklist.json');
+export const imageMimeTypes: Record<ImageType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
 
-if (!fs.existsSync(allowlistPath)) {
-  fs.writeFileSync(allowlistPath, JSON.stringify({ users: config.admins }));
-}
+/**
+ * Identifies PNG, JPEG, GIF and WebP files by their magic bytes.
+ */
+export const detectImageType = (buffer: Buffer): ImageType | null => {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+    return 'jpeg';
+  }
+  if (['GIF87a', 'GIF89a'].includes(buffer.subarray(0, 6).toString('latin1'))) {
+    return 'gif';
+  }
+  if (
+    buffer.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    buffer.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  return null;
+};
 
-if (!fs.existsSync(blocklistPath)) {
-  fs.writeFileSync(blocklistPath, JSON.stringify({ users: [] }));
+/**
+ * An image download that was refused or failed; `message` is shown to users as the reason.
+ * Transient failures (timeouts, network errors, 5xx/429 responses) are retried.
+ */
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    readonly transient = false,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'DownloadError';
+  }
 }
 
-export const allowlist = JSON.parse(fs.readFileSync(allowlistPath, 'utf-8')) as {
-  users?: number[];
-  groups?: number[];
+const downloadDefaults: Required<DownloadConfig> = {
+  maxSize: 10 * 1024 * 1024,
+  timeout: 15_000,
+  retries: 2
 };
 
-export const blocklist = JSON.parse(fs.readFileSync(blocklistPath, 'utf-8')) as {
-  users?: number[];
-};
+/**
+ * Accepts plain file names only: no path separators, control characters or `.`/`..`.
+ */
+export const isSafeFileName = (name: string): boolean =>
+  name.length > 0 &&
+  name.length <= 255 &&
+  !/[/\\\p{Cc}]/u.test(name) &&
+  name !== '.' &&
+  name !== '..';
 
-export const downloadImage = async (
+const fetchWithLimits = async (
   url: string,
-  userId: string,
-  fileName: string
-): Promise<string> => {
-  // Create user directory if it doesn't exist
-  const userDir = path.join(__dirname, '..', 'data', userId);
-  if (!fs.existsSync(userDir)) {
-    fs.mkdirSync(userDir, { recursive: true });
-  }
+  maxSize: number,
+  timeout: number,
+  label = '图片'
+): Promise<Buffer> => {
+  const signal = AbortSignal.timeout(timeout);
+  const describe = (err: unknown) =>
+    signal.aborted
+      ? new DownloadError(`下载超时（超过 ${timeout / 1000} 秒）`, true, { cause: err })
+      : new DownloadError(`网络错误，无法下载${label}`, true, { cause: err });
 
-  // Download the image
-  const response = await fetch(url);
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    throw describe(err);
+  }
   if (!response.ok) {
-    throw new Error(`Failed to download image: ${response.statusText}`);
+    await response.body?.cancel().catch(() => {});
+    throw new DownloadError(
+      `服务器返回错误 ${response.status}`,
+      response.status === 408 || response.status === 429 || response.status >= 500
+    );
   }
 
-  const buffer = await response.arrayBuffer();
+  const tooLarge = (size: number) =>
+    new DownloadError(`${label}过大（${formatBytes(size)}），上限为 ${formatBytes(maxSize)}`);
+  const declaredSize = Number(response.headers.get('content-length'));
+  if (declaredSize > maxSize) {
+    await response.body?.cancel().catch(() => {});
+    throw tooLarge(declaredSize);
+  }
+  if (!response.body) return Buffer.alloc(0);
 
-  // Save to disk
-  const filePath = path.join(userDir, fileName);
-  fs.writeFileSync(filePath, Buffer.from(buffer));
+  // Count bytes as they arrive so a missing or false Content-Length cannot bypass the cap
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxSize) {
+        await reader.cancel().catch(() => {});
+        throw tooLarge(size);
+      }
+      chunks.push(value);
+    }
+  } catch (err) {
+    throw err instanceof DownloadError ? err : describe(err);
+  }
+  return Buffer.concat(chunks);
+};
 
-  // Return relative path for database storage
-  return path.join('data', userId, fileName);
+/**
+ * Downloads an image, enforcing the configured size cap and timeout, retrying transient
+ * failures and accepting only real PNG, JPEG, GIF and WebP files.
+ * `fileName` is the sender-supplied name, which is validated but never used on disk:
+ * stored files are always named by their content hash.
+ */
+export const downloadImage = async (url: string, fileName?: string): Promise<Buffer> => {
+  if (fileName !== undefined && !isSafeFileName(fileName)) {
+    throw new DownloadError('文件名不合法');
+  }
+  const { maxSize, timeout, retries } = { ...downloadDefaults, ...config.download };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const buffer = await fetchWithLimits(url, maxSize, timeout);
+      if (!detectImageType(buffer)) {
+        throw new DownloadError('不支持的文件格式，仅支持 PNG、JPEG、GIF 与 WebP 图片');
+      }
+      return buffer;
+    } catch (err) {
+      if (!(err instanceof DownloadError) || !err.transient || attempt >= retries) throw err;
+      console.warn(`[qmoji] Retrying download of ${url} (${err.message})`);
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt));
+    }
+  }
 };
 
+/**
+ * Downloads a file other than an image, such as an import archive, with the configured
+ * timeout but its own size cap. Not retried.
+ */
+export const downloadFile = (url: string, maxSize: number): Promise<Buffer> =>
+  fetchWithLimits(url, maxSize, { ...downloadDefaults, ...config.download }.timeout, '文件');
+
+/**
+ * Where a file goes in the content-addressed blob store (`data/blobs/<xx>/<sha256>`),
+ * without writing it.
+ */
+export const hashBlob = (buffer: Buffer): BlobInfo => {
+  const hash = createHash('sha256').update(buffer).digest('hex');
+  // Relative path for database storage
+  return {
+    hash,
+    file_path: path.join('data', 'blobs', hash.slice(0, 2), hash),
+    size: buffer.length
+  };
+};
+
+/**
+ * Writes a file into the blob store, skipping the write if an identical file is already stored.
+ */
+export const storeBlob = (buffer: Buffer): BlobInfo => {
+  const blob = hashBlob(buffer);
+  const blobDir = path.join(dataDir, 'blobs', blob.hash.slice(0, 2));
+  if (!fs.existsSync(blobDir)) {
+    fs.mkdirSync(blobDir, { recursive: true });
+  }
+
+  const fullPath = path.join(blobDir, blob.hash);
+  if (!fs.existsSync(fullPath)) {
+    fs.writeFileSync(fullPath, buffer);
+  }
+  return blob;
+};
+
+export const readImage = (filePath: string): Buffer =>
+  fs.readFileSync(path.join(rootDir, filePath));
+
 export const deleteImage = (filePath: string): void => {
-  const fullPath = path.join(__dirname, '..', filePath);
+  const fullPath = path.join(rootDir, filePath);
   if (fs.existsSync(fullPath)) {
     fs.unlinkSync(fullPath);
   }
 };
 
+/**
+ * Deletes the files of all blobs whose last referencing image is gone.
+ */
+export const purgeOrphanedBlobs = (): number => {
+  const blobs = takeOrphanedBlobs();
+  for (const blob of blobs) {
+    deleteImage(blob.file_path);
+  }
+  return blobs.length;
+};
+
+/**
+ * One-time migration of the per-user `data/<userId>/<file>` layout into the blob store.
+ * Identical files are deduplicated and the old copies are removed afterwards.
+ */
+export const migrateLegacyStorage = (): void => {
+  const images = getImagesWithoutBlob();
+  if (!images.length) return;
+
+  const legacyFiles = new Set<string>();
+  let migrated = 0;
+  for (const image of images) {
+    const fullPath = path.join(rootDir, image.file_path);
+    if (!fs.existsSync(fullPath)) {
+      console.warn(`[qmoji] Legacy image ${image.id} is missing its file ${image.file_path}`);
+      continue;
+    }
+    attachBlob(image.id, storeBlob(fs.readFileSync(fullPath)));
+    legacyFiles.add(fullPath);
+    migrated++;
+  }
+
+  for (const fullPath of legacyFiles) {
+    fs.unlinkSync(fullPath);
+    const dir = path.dirname(fullPath);
+    if (fs.readdirSync(dir).length === 0) {
+      fs.rmdirSync(dir);
+    }
+  }
+
+  console.log(
+    `[qmoji] Migrated ${migrated} legacy images (${legacyFiles.size} files) into the blob store.`
+  );
+};
+
 export const formatBytes = (totalSize: number): string => {
   if (totalSize === 0) return '0 B';
   const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
@@ -0,0 +1,703 @@
+import assert from 'node:assert/strict';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { zipSync } from 'fflate';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { startBot, type Bot } from './helpers/bot.js';
+import {
+  FakeNapCat,
+  SELF_ID,
+  at,
+  file,
+  image,
+  imagesOf,
+  reply,
+  text,
+  textOf,
+  type Segment
+} from './helpers/fake-napcat.js';
+import { FixtureServer, gif, png } from './helpers/fixtures.js';
+
+const ADMIN = 10001;
+const MEMBER = 20002;
+const OUTSIDER = 40004;
+const GROUP = 30003;
+
+interface ImageRow {
+  id: number;
+  name: string;
+  user_id: string;
+  saved_by: string;
+  saved_from: string | null;
+  use_count: number;
+}
+
+describe('message flows', () => {
+  let napcat: FakeNapCat;
+  let fixtures: FixtureServer;
+  let bot: Bot;
+  let pngUrl: string;
+  let gifUrl: string;
+  let htmlUrl: string;
+  let largeUrl: string;
+
+  before(async () => {
+    fixtures = await FixtureServer.start();
+    pngUrl = fixtures.serve('/cat.png', png);
+    gifUrl = fixtures.serve('/dog.gif', gif, 'image/gif');
+    htmlUrl = fixtures.serve('/fake.png', Buffer.from('<!doctype html>'), 'image/png');
+    largeUrl = fixtures.serve('/large.png', Buffer.concat([png, Buffer.alloc(4096)]));
+  });
+
+  after(async () => {
+    await fixtures.close();
+  });
+
+  beforeEach(async () => {
+    napcat = await FakeNapCat.start();
+    bot = await startBot(napcat, {
+      admins: [ADMIN],
+      allowlist: { groups: [GROUP] },
+      config: { download: { maxSize: 1024, timeout: 2000, retries: 0 } }
+    });
+  });
+
+  afterEach(async () => {
+    await bot.stop();
+    await napcat.close();
+  });
+
+  /** Posts an image in the group, then replies to it with `command`. */
+  const saveByReply = (userId: number, url: string, command: string) => {
+    const original = napcat.sendGroupMessage(GROUP, userId, [image(url)]);
+    return napcat.sendGroupMessage(GROUP, userId, [reply(original), text(command)]);
+  };
+
+  const groupReply = async () => textOf(await napcat.nextMessage({ group_id: GROUP }));
+
+  it('saves a replied-to image and reacts to the command', async () => {
+    const messageId = saveByReply(MEMBER, pngUrl, '#cat');
+
+    const reaction = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(reaction.params, { message_id: messageId, emoji_id: '124' });
+    const [row] = await bot.waitForRows<ImageRow>('SELECT * FROM images WHERE name = ?', ['cat']);
+    assert.equal(row.user_id, String(MEMBER));
+    assert.equal(row.saved_by, String(MEMBER));
+    assert.equal(row.saved_from, String(GROUP));
+  });
+
+  it('rejects downloads that are not images or are too large', async () => {
+    const messageId = saveByReply(MEMBER, htmlUrl, '#fake');
+    assert.match(await groupReply(), /保存失败：不支持的文件格式/);
+    const reaction = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(reaction.params, { message_id: messageId, emoji_id: '10060' });
+
+    saveByReply(MEMBER, largeUrl, '#large');
+    assert.match(await groupReply(), /保存失败：图片过大/);
+
+    const evil = napcat.sendGroupMessage(GROUP, MEMBER, [image(pngUrl, '../../evil.png')]);
+    napcat.sendGroupMessage(GROUP, MEMBER, [reply(evil), text('#evil')]);
+    assert.match(await groupReply(), /保存失败：文件名不合法/);
+
+    assert.equal(bot.query('SELECT id FROM images').length, 0);
+
+    const dotted = napcat.sendGroupMessage(GROUP, MEMBER, [image(pngUrl, 'a..b.png')]);
+    napcat.sendGroupMessage(GROUP, MEMBER, [reply(dotted), text('#dotted')]);
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['dotted']);
+  });
+
+  it('saves the images that succeed and reports the rest', async () => {
+    const original = napcat.sendGroupMessage(GROUP, MEMBER, [image(pngUrl), image(htmlUrl)]);
+    napcat.sendGroupMessage(GROUP, MEMBER, [reply(original), text('#mixed')]);
+    assert.equal(
+      await groupReply(),
+      '已保存 1/2 个表情，1 个失败：不支持的文件格式，仅支持 PNG、JPEG、GIF 与 WebP 图片'
+    );
+    await napcat.expectNoAction('set_msg_emoji_like', 0);
+    assert.equal(bot.query('SELECT id FROM images WHERE name = ?', 'mixed').length, 1);
+  });
+
+  it('leaves no blob files behind when the database rejects a save', async () => {
+    bot.exec(
+      "CREATE TRIGGER fail_insert BEFORE INSERT ON images BEGIN SELECT RAISE(ABORT, 'boom'); END"
+    );
+    saveByReply(MEMBER, pngUrl, '#cat');
+    assert.equal(await groupReply(), '保存失败：无法写入数据库');
+    const blobs = await readdir(join(bot.root, 'data', 'blobs'), { recursive: true }).catch(
+      () => []
+    );
+    assert.deepEqual(blobs, []);
+  });
+
+  it('refuses saves over quota and reports usage', async () => {
+    napcat.sendGroupMessage(GROUP, ADMIN, `qmoji quota set count 1 ${MEMBER}`);
+    assert.match(await groupReply(), /数量配额设为 1 个/);
+
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    saveByReply(MEMBER, gifUrl, '#dog');
+    assert.match(await groupReply(), /保存失败：超出个人表情数量配额（已用 1\/1 个/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji quota');
+    assert.match(await groupReply(), /个人表情配额\n数量：1\/1 个，剩余 0 个/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, `qmoji quota set count 5 ${MEMBER}`);
+    assert.match(await groupReply(), /权限不足/);
+  });
+
+  it('refuses transfers, imports and restores over quota', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji quota set size 1 group');
+    await groupReply();
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji transfer group cat');
+    assert.match(await groupReply(), /^转移失败：超出群聊表情空间配额/);
+
+    napcat.sendGroupMessage(GROUP, ADMIN, `qmoji quota set count 1 ${MEMBER}`);
+    await groupReply();
+    const manifest = {
+      format: 'qmoji-pack',
+      version: 1,
+      exported_at: Date.now(),
+      scope: 'personal',
+      entries: [{ name: 'dog', file: 'images/a' }]
+    };
+    const archive = zipSync({
+      'manifest.json': new TextEncoder().encode(JSON.stringify(manifest)),
+      'images/a': new Uint8Array(gif)
+    });
+    const url = fixtures.serve('/pack.zip', Buffer.from(archive), 'application/zip');
+    napcat.sendGroupMessage(GROUP, MEMBER, [text('qmoji import'), file(url)]);
+    assert.match(await groupReply(), /^导入失败：超出个人表情数量配额（已用 1\/1 个/);
+
+    const rows = bot.query<ImageRow>('SELECT * FROM images');
+    assert.deepEqual(
+      rows.map((row) => [row.name, row.user_id]),
+      [['cat', String(MEMBER)]]
+    );
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji clear cat');
+    assert.match(await groupReply(), /^成功清除 1 个表情。/);
+    saveByReply(MEMBER, gifUrl, '#dog');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['dog']);
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji restore cat');
+    assert.match(await groupReply(), /^恢复失败：超出个人表情数量配额（已用 1\/1 个/);
+  });
+
+  it('drops use commands over the rate limit with a reaction', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji ratelimit set use user 1/1');
+    assert.match(await groupReply(), /容量 1，每分钟恢复 1/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+    const limited = napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    const reaction = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(reaction.params, { message_id: limited, emoji_id: '128164' });
+    await napcat.expectNoAction('send_msg');
+
+    // Bot admins are exempt
+    napcat.sendGroupMessage(GROUP, ADMIN, '.cat');
+    napcat.sendGroupMessage(GROUP, ADMIN, '.cat');
+    await napcat.nextMessage({ group_id: GROUP });
+    await napcat.nextMessage({ group_id: GROUP });
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji ratelimit');
+    assert.match(await groupReply(), /每位用户：剩余 0\/1，每分钟恢复 1/);
+  });
+
+  it('sends a saved image back and counts the use', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['cat']);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    const [sent] = imagesOf(await napcat.nextMessage({ group_id: GROUP }));
+    assert.deepEqual(sent, png);
+    const [row] = bot.query<ImageRow>('SELECT use_count FROM images WHERE name = ?', 'cat');
+    assert.equal(row.use_count, 1);
+  });
+
+  it('picks images by index, pin and group strategy', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    saveByReply(MEMBER, gifUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    // Indexes follow `qmoji <名称>`, newest first
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat 2');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat 3');
+    assert.equal(await groupReply(), '序号超出范围。当前共有 2 个表情。');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji pin cat 2');
+    assert.match(await groupReply(), /已将「cat」的第 2 个表情设为置顶/);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat pin');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji selection newest');
+    assert.match(await groupReply(), /权限不足/);
+    napcat.setRole(GROUP, MEMBER, 'admin');
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji selection newest');
+    assert.equal(await groupReply(), '已将本群表情选取方式设为：最新保存。');
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [gif]);
+  });
+
+  it('applies per-group prefixes and switches', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji config prefix.use !');
+    assert.match(await groupReply(), /权限不足/);
+    napcat.setRole(GROUP, MEMBER, 'admin');
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji config prefix.use #');
+    assert.equal(await groupReply(), '前缀与个人表情保存前缀冲突。');
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji config prefix.use !');
+    assert.equal(await groupReply(), '已将本群的表情发送前缀设为：!。');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, '!cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    await napcat.expectNoAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji config personal off');
+    await groupReply();
+    saveByReply(MEMBER, gifUrl, '#dog');
+    assert.match(await groupReply(), /本群已关闭个人表情保存/);
+  });
+
+  it('replaces every trigger in a message once a group enables inline emojis', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    saveByReply(MEMBER, gifUrl, '%dog');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'lol .cat');
+    await napcat.expectNoAction('send_msg');
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji config inline on');
+    assert.equal(await groupReply(), '已将本群的消息中的多个或行内表情设为：on。');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'lol .cat .DOG .nothing');
+    const message: Segment[] = await napcat.nextMessage({ group_id: GROUP });
+    assert.deepEqual(
+      message.map((segment) => segment.type),
+      ['text', 'image', 'text', 'image', 'text']
+    );
+    assert.equal(textOf(message), 'lol   .nothing');
+    assert.deepEqual(imagesOf(message), [png, gif]);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, [text('lol .ca'), at(ADMIN), text('t .dog')]);
+    const mentioned: Segment[] = await napcat.nextMessage({ group_id: GROUP });
+    assert.deepEqual(
+      mentioned.map((segment) => segment.type),
+      ['text', 'at', 'text', 'image']
+    );
+    assert.equal(textOf(mentioned), 'lol .cat ');
+    assert.deepEqual(imagesOf(mentioned), [gif]);
+
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji config inline.max 1');
+    await groupReply();
+    napcat.sendGroupMessage(GROUP, MEMBER, 'lol .cat .dog');
+    const capped: Segment[] = await napcat.nextMessage({ group_id: GROUP });
+    assert.equal(textOf(capped), 'lol  .dog');
+    assert.deepEqual(imagesOf(capped), [png]);
+  });
+
+  it('sums storage per scope from blob sizes, counting shared files once overall', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji stats');
+    const overview = await groupReply();
+    const size = /占用 (\S+ \S+)/.exec(overview)?.[1];
+    assert.match(overview, /共 2 个表情/);
+    assert.match(
+      overview,
+      new RegExp(`群组：\n - group30003 \\(30003\\)：共 1 个, 使用 0 次, 占用 ${size}`)
+    );
+    assert.match(
+      overview,
+      new RegExp(`用户：\n - user20002 \\(20002\\)：共 1 个, 使用 0 次, 占用 ${size}`)
+    );
+  });
+
+  it('ranks emojis and users by recent use', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    for (const userId of [MEMBER, MEMBER, 50005]) {
+      napcat.sendGroupMessage(GROUP, userId, '.cat');
+      await napcat.nextMessage({ group_id: GROUP });
+    }
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji top day');
+    assert.equal(
+      await groupReply(),
+      '本群表情排行 (近 1 天)\n1. 「cat」 (群聊) 3 次\n\n活跃用户\n1. user20002 (20002) 2 次\n2. user50005 (50005) 1 次'
+    );
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji top global');
+    assert.match(await groupReply(), /权限不足/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji cat');
+    assert.match(
+      await groupReply(),
+      /使用统计：近 1 天 3 次，近 7 天 3 次，近 30 天 3 次，全部 3 次\n本群最常使用：user20002 \(20002\) 2 次/
+    );
+  });
+
+  it('lists saved emojis', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    saveByReply(MEMBER, gifUrl, '#dog');
+    await napcat.nextAction('set_msg_emoji_like');
+    await napcat.nextAction('set_msg_emoji_like');
+    await bot.waitForRows("SELECT id FROM images WHERE name = 'dog'");
+    await bot.waitForRows("SELECT id FROM images WHERE name = 'cat'");
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji list');
+    const listing = await groupReply();
+    assert.match(listing, /已保存的表情列表 \(2\)/);
+    assert.match(listing, /「cat」/);
+    assert.match(listing, /「dog」/);
+  });
+
+  it('reacts when nothing matches and suggests similar names', async () => {
+    const unknown = napcat.sendGroupMessage(GROUP, MEMBER, '.nothing');
+    const reaction = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(reaction.params, { message_id: unknown, emoji_id: '10068' });
+
+    saveByReply(MEMBER, pngUrl, '#kitten');
+    await napcat.nextAction('set_msg_emoji_like');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['kitten']);
+
+    // Suggestions are opt-in so groups keep the plain reaction by default
+    const typo = napcat.sendGroupMessage(GROUP, MEMBER, '.kiten');
+    const plain = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(plain.params, { message_id: typo, emoji_id: '10068' });
+
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji config notfound suggest');
+    assert.equal(await groupReply(), '已将本群的未找到表情时的行为设为：suggest (推荐相近名称)。');
+    napcat.sendGroupMessage(GROUP, MEMBER, '.kiten');
+    assert.match(await groupReply(), /你是不是想找：\.kitten/);
+  });
+
+  it('refuses archives with too many files before inflating them', async () => {
+    const entries = Object.fromEntries(
+      Array.from({ length: 2001 }, (_, i) => [`images/${i}`, new Uint8Array(1)])
+    );
+    const url = fixtures.serve('/pack.zip', Buffer.from(zipSync(entries)), 'application/zip');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, [text('qmoji import'), file(url)]);
+    assert.equal(await groupReply(), '导入失败：压缩包中的文件过多，上限为 2000 个');
+    assert.equal(bot.query('SELECT id FROM images').length, 0);
+  });
+
+  it('imports a pack and writes its files once the rows are committed', async () => {
+    const entry = { aliases: ['kitty'], tags: ['Cute'], use_count: 3, saved_by: '60006' };
+    const manifest = {
+      format: 'qmoji-pack',
+      version: 1,
+      exported_at: Date.now(),
+      scope: 'personal',
+      entries: [
+        { ...entry, name: 'cat', file: 'images/a' },
+        { ...entry, name: 'cat', file: 'images/a' }
+      ]
+    };
+    const archive = zipSync({
+      'manifest.json': new TextEncoder().encode(JSON.stringify(manifest)),
+      'images/a': new Uint8Array(png)
+    });
+    const url = fixtures.serve('/pack.zip', Buffer.from(archive), 'application/zip');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, [text('qmoji import'), file(url)]);
+    assert.equal(await groupReply(), '导入完成：新增 1 个表情。\n忽略重复的表情 1 个。');
+    const [row] = bot.query<ImageRow & { file_path: string }>('SELECT * FROM images');
+    assert.equal(row.user_id, String(MEMBER));
+    assert.equal(row.use_count, 3);
+    assert.deepEqual(await readFile(join(bot.root, row.file_path)), png);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.kitty');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+  });
+
+  it('transfers a personal emoji to the group', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['cat']);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji transfer group cat');
+    assert.match(await groupReply(), /成功将 1 个个人表情转移至群聊层级/);
+    const [row] = bot.query<ImageRow>('SELECT user_id FROM images WHERE name = ?', 'cat');
+    assert.equal(row.user_id, `chat-${GROUP}`);
+
+    // Group emojis remain usable by everyone in the group
+    napcat.sendGroupMessage(GROUP, 50005, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+  });
+
+  it('copies visible emojis into a personal library and transfers them back to users', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji copy cat');
+    assert.equal(await groupReply(), '成功将 1 个表情复制到个人层级。');
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji cp cat 2');
+    assert.equal(await groupReply(), '没有需要复制的表情：目标层级中已有相同的表情。');
+    const copies = bot.query<ImageRow>("SELECT * FROM images WHERE user_id = '50005'");
+    assert.equal(copies.length, 1);
+    assert.equal(copies[0].saved_by, String(MEMBER));
+    assert.equal(copies[0].saved_from, String(GROUP));
+
+    napcat.sendGroupMessage(GROUP, MEMBER, [text('qmoji transfer user '), at(60006), text(' cat')]);
+    assert.match(await groupReply(), /权限不足/);
+    napcat.sendGroupMessage(GROUP, ADMIN, [text('qmoji transfer user '), at(60006), text(' cat')]);
+    assert.equal(await groupReply(), '成功将 1 个群聊表情转移给用户 user60006 (60006)。');
+    const [moved] = bot.query<ImageRow>("SELECT * FROM images WHERE user_id = '60006'");
+    assert.equal(moved.saved_by, String(MEMBER));
+  });
+
+  it('shares the group library with another group until the link is revoked', async () => {
+    const other = 30004;
+    const otherReply = async () => textOf(await napcat.nextMessage({ group_id: other }));
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji allowlist add group 30004');
+    await groupReply();
+
+    napcat.sendGroupMessage(GROUP, MEMBER, `qmoji link add ${other}`);
+    assert.match(await groupReply(), /权限不足/);
+    napcat.setRole(GROUP, MEMBER, 'admin');
+    napcat.sendGroupMessage(GROUP, MEMBER, `qmoji link add ${other}`);
+    assert.equal(
+      await groupReply(),
+      '已将本群表情库共享给群 group30004 (30004)，对方可以使用但不能修改本群表情。'
+    );
+
+    napcat.sendGroupMessage(other, 50005, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: other })), [png]);
+    napcat.sendGroupMessage(other, 50005, 'qmoji list');
+    assert.match(await otherReply(), /「cat」\(来自群 group30003 \(30003\), 共 1 个/);
+    napcat.sendGroupMessage(other, 50005, 'qmoji link');
+    assert.match(await otherReply(), /本群可使用以下群的表情：group30003 \(30003\)/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, `qmoji link remove ${other}`);
+    assert.equal(await groupReply(), '已取消本群表情库对群 group30004 (30004)的共享。');
+    const unknown = napcat.sendGroupMessage(other, 50005, '.cat');
+    const reaction = await napcat.nextAction('set_msg_emoji_like');
+    assert.deepEqual(reaction.params, { message_id: unknown, emoji_id: '10068' });
+  });
+
+  it('switches private chats to a group library for members only', async () => {
+    const privateReply = async () => textOf(await napcat.nextMessage({ user_id: 50005 }));
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendPrivateMessage(50005, 'qmoji list');
+    await napcat.expectNoAction('send_msg');
+
+    napcat.removeMember(30005, 50005);
+    napcat.sendPrivateMessage(50005, 'qmoji ctx 30005');
+    await napcat.expectNoAction('send_msg');
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji allowlist add group 30005');
+    await groupReply();
+    napcat.sendPrivateMessage(50005, 'qmoji ctx 30005');
+    assert.equal(await privateReply(), '你不是群 30005 的成员，无法切换。');
+
+    napcat.sendPrivateMessage(50005, `qmoji ctx ${GROUP}`);
+    assert.match(await privateReply(), /^已切换到群 group30003 \(30003\) 的表情库/);
+    napcat.sendPrivateMessage(50005, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ user_id: 50005 })), [png]);
+
+    const original = napcat.sendPrivateMessage(50005, [image(gifUrl)]);
+    napcat.sendPrivateMessage(50005, [reply(original), text('%cat')]);
+    assert.equal(await privateReply(), '保存成功！');
+    const rows = bot.query<ImageRow>('SELECT * FROM images WHERE name = ?', 'cat');
+    assert.deepEqual(
+      rows.map((row) => [row.user_id, row.saved_from]),
+      [
+        [`chat-${GROUP}`, String(GROUP)],
+        [`chat-${GROUP}`, String(GROUP)]
+      ]
+    );
+
+    napcat.sendPrivateMessage(50005, 'qmoji tag cat 1 +cute');
+    assert.match(await privateReply(), /^权限不足：本群仅管理员及以上可重命名/);
+    napcat.sendPrivateMessage(50005, 'qmoji rm cat 2');
+    assert.match(await privateReply(), /^权限不足：本群仅管理员及以上可删除/);
+    napcat.setRole(GROUP, 50005, 'admin');
+    napcat.sendPrivateMessage(50005, 'qmoji tag cat 1 +cute');
+    assert.equal(await privateReply(), '“cat”的第 1 个表情的标签：#cute');
+    napcat.sendPrivateMessage(50005, 'qmoji rm cat 2');
+    assert.match(await privateReply(), /^成功删除名称为“cat”的第 2 个表情。/);
+    napcat.sendPrivateMessage(50005, 'qmoji trash');
+    assert.match(await privateReply(), /^回收站 \(1\)/);
+
+    napcat.sendPrivateMessage(50005, 'qmoji ctx off');
+    assert.equal(await privateReply(), '已切换回个人表情库。');
+    napcat.sendPrivateMessage(50005, 'qmoji list');
+    await napcat.expectNoAction('send_msg');
+
+    napcat.sendPrivateMessage(50005, `qmoji ctx ${GROUP}`);
+    assert.match(await privateReply(), /^已切换到群/);
+
+    napcat.removeMember(GROUP, 50005);
+    napcat.sendPrivateMessage(50005, 'hello');
+    await napcat.expectNoAction('send_msg');
+    napcat.sendPrivateMessage(50005, '.cat');
+    assert.equal(await privateReply(), `你已不是群 ${GROUP} 的成员，已切换回个人表情库。`);
+    await napcat.expectNoAction('send_msg');
+    assert.deepEqual(bot.query('SELECT * FROM private_contexts WHERE user_id = ?', 50005), []);
+  });
+
+  it('only lets group admins remove group emojis saved by others', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['cat']);
+
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji remove cat 1');
+    assert.match(await groupReply(), /权限不足/);
+    assert.equal(bot.query('SELECT id FROM images').length, 1);
+
+    napcat.setRole(GROUP, 50005, 'admin');
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji remove cat 1');
+    assert.match(await groupReply(), /成功删除名称为“cat”的第 1 个表情/);
+    assert.equal(bot.query("SELECT id FROM images WHERE status = 'approved'").length, 0);
+  });
+
+  it('moves cleared emojis to the trash and restores them', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    await napcat.nextAction('set_msg_emoji_like');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji cl cat');
+    assert.match(await groupReply(), /成功清除 1 个表情。\n已移至回收站/);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    await napcat.nextAction('set_msg_emoji_like', (params) => params.emoji_id === '10068');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji trash');
+    assert.match(await groupReply(), /回收站 \(1\)[\s\S]*「cat」 由 20002 删除，30 天后永久删除/);
+    // Other users cannot see someone else's personal trash
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji trash');
+    assert.equal(await groupReply(), '回收站是空的。');
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji restore cat');
+    assert.match(await groupReply(), /已恢复 1 个表情「cat」/);
+    napcat.sendGroupMessage(GROUP, MEMBER, '.cat');
+    assert.deepEqual(imagesOf(await napcat.nextMessage({ group_id: GROUP })), [png]);
+  });
+
+  it('refuses to rename onto an alias of another emoji', async () => {
+    saveByReply(MEMBER, pngUrl, '#cat');
+    saveByReply(MEMBER, gifUrl, '#dog');
+    await bot.waitForRows('SELECT id FROM images WHERE name = ?', ['dog']);
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji alias dog puppy');
+    assert.match(await groupReply(), /^已为“dog”添加别名“puppy”/);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji rename cat puppy');
+    assert.equal(
+      await groupReply(),
+      '“puppy”已是“dog”的别名。如需使用该名称，请先使用 qmoji unalias puppy 移除别名。'
+    );
+    assert.deepEqual(bot.query('SELECT name FROM aliases WHERE alias = ?', 'puppy'), [
+      { name: 'dog' }
+    ]);
+  });
+
+  it('records library changes in the audit log', async () => {
+    saveByReply(MEMBER, pngUrl, '%cat');
+    await napcat.nextAction('set_msg_emoji_like');
+    napcat.setRole(GROUP, 50005, 'admin');
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji rename cat kitty group');
+    await groupReply();
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji alias kitty neko group');
+    await groupReply();
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji unalias neko group');
+    await groupReply();
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji tag kitty 1 +cute');
+    await groupReply();
+
+    const rows = bot.query<{ action: string; actor: string; scope: string; image_ids: string }>(
+      'SELECT action, actor, scope, image_ids FROM audit_log ORDER BY id'
+    );
+    assert.deepEqual(
+      rows.map((row) => [row.action, row.actor, row.scope]),
+      [
+        ['insert', String(MEMBER), `chat-${GROUP}`],
+        ['rename', '50005', `chat-${GROUP}`],
+        ['alias.add', '50005', `chat-${GROUP}`],
+        ['alias.remove', '50005', `chat-${GROUP}`],
+        ['tag.add', '50005', `chat-${GROUP}`]
+      ]
+    );
+    assert.equal(JSON.parse(rows[1].image_ids).length, 1);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji log');
+    assert.match(await groupReply(), /权限不足/);
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji log cat');
+    const log = await groupReply();
+    assert.match(log, /50005 重命名「cat」→ kitty/);
+    napcat.sendGroupMessage(GROUP, 50005, 'qmoji log kitty');
+    const kittyLog = await groupReply();
+    assert.match(kittyLog, /50005 添加标签「kitty」 #cute/);
+    assert.match(kittyLog, /50005 移除别名「kitty」 neko/);
+    assert.match(log, /20002 保存「cat」/);
+  });
+
+  it('reloads config.json and reconnects when the NapCat address changes', async () => {
+    const configPath = join(bot.root, 'config.json');
+    const current = JSON.parse(await readFile(configPath, 'utf-8'));
+    await writeFile(
+      configPath,
+      JSON.stringify({ ...current, prefixes: { ...current.prefixes, use: ['..'] } })
+    );
+    napcat.sendGroupMessage(GROUP, ADMIN, 'qmoji reload');
+    assert.match(
+      await groupReply(),
+      /配置文件有误，已保留当前配置：\n- prefixes\.use\[0\]: expected a single character/
+    );
+
+    const next = await FakeNapCat.start();
+    try {
+      await writeFile(configPath, JSON.stringify({ ...current, napcatWs: next.url }));
+      await next.waitForConnection();
+      next.sendGroupMessage(GROUP, ADMIN, 'qmoji reload');
+      assert.equal(textOf(await next.nextMessage({ group_id: GROUP })), '配置没有变化。');
+    } finally {
+      await next.close();
+    }
+  });
+
+  it('bans users in one group for a while', async () => {
+    napcat.setRole(GROUP, 50005, 'admin');
+    napcat.sendGroupMessage(GROUP, 50005, [text('qmoji ban '), at(MEMBER), text(' 1h 刷屏 Spam')]);
+    assert.match(
+      await groupReply(),
+      /^已将用户 user20002 \(20002\) \(仅群 30003\) - 由 50005 封禁，.+ 到期，理由：刷屏 Spam。$/
+    );
+    const [row] = bot.query<{ group_id: string; expires_at: number }>('SELECT * FROM bans');
+    assert.equal(row.group_id, String(GROUP));
+    assert.ok(Math.abs(row.expires_at - Date.now() - 60 * 60 * 1000) < 60 * 1000);
+
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji list');
+    await napcat.expectNoAction('send_msg');
+
+    napcat.sendGroupMessage(GROUP, 50005, [at(SELF_ID), text(' qmoji unban '), at(MEMBER)]);
+    assert.match(await groupReply(), /已解除用户 .+ 在本群的封禁/);
+    napcat.sendGroupMessage(GROUP, MEMBER, 'qmoji list');
+    assert.equal(await groupReply(), '未查询到任何表情。');
+  });
+
+  it('ignores users outside the allowlist until an admin adds them', async () => {
+    napcat.sendPrivateMessage(OUTSIDER, 'qmoji list');
+    await napcat.expectNoAction('send_msg');
+
+    napcat.sendGroupMessage(GROUP, ADMIN, [text('qmoji allowlist add '), at(OUTSIDER)]);
+    await groupReply();
+
+    napcat.sendPrivateMessage(OUTSIDER, 'qmoji list');
+    const message: Segment[] = await napcat.nextMessage({ user_id: OUTSIDER });
+    assert.equal(textOf(message), '未查询到任何表情。');
+  });
+});
@@ -0,0 +1,116 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { once } from 'events';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import type { FakeNapCat } from './fake-napcat.js';
+
+const projectRoot = resolve(fileURLToPath(import.meta.url), '../../..');
+
+export interface BotOptions {
+  admins?: number[];
+  allowlist?: { users?: number[]; groups?: number[] };
+  blocklist?: { users?: number[] };
+  /** Extra keys merged into the generated config.json. */
+  config?: Record<string, unknown>;
+}
+
+export interface Bot {
+  root: string;
+  /** Runs `query` against a read-only connection to the bot's database. */
+  query: <T = Record<string, unknown>>(sql: string, ...params: unknown[]) => T[];
+  /** Polls `query` until it returns at least one row. */
+  waitForRows: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+    timeout?: number
+  ) => Promise<T[]>;
+  /** Runs `sql` against a writable connection, e.g. to simulate database failures. */
+  exec: (sql: string) => void;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Starts qmoji as a child process against `napcat`, with its config, lists and data
+ * in a fresh temporary directory.
+ */
+export const startBot = async (napcat: FakeNapCat, options: BotOptions = {}): Promise<Bot> => {
+  const root = await mkdtemp(join(tmpdir(), 'qmoji-test-'));
+  await writeFile(
+    join(root, 'config.json'),
+    JSON.stringify({
+      napcatWs: napcat.url,
+      napcatToken: '',
+      admins: options.admins ?? [],
+      prefixes: {
+        save: ['#'],
+        groupSave: ['%'],
+        globalSave: ['&'],
+        use: ['.'],
+        utils: ['qmoji']
+      },
+      reactOnNotFound: true,
+      ...options.config
+    })
+  );
+  await writeFile(join(root, 'allowlist.json'), JSON.stringify(options.allowlist ?? {}));
+  await writeFile(join(root, 'blocklist.json'), JSON.stringify(options.blocklist ?? {}));
+
+  const chunks: string[] = [];
+  const child: ChildProcess = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: projectRoot,
+    env: { ...process.env, QMOJI_ROOT: root },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  child.stdout?.on('data', (chunk) => chunks.push(chunk.toString()));
+  child.stderr?.on('data', (chunk) => chunks.push(chunk.toString()));
+  const exited = once(child, 'exit');
+
+  const connected = await Promise.race([
+    napcat.waitForConnection().then(() => true),
+    exited.then(() => false)
+  ]);
+  if (!connected) {
+    await rm(root, { recursive: true, force: true });
+    throw new Error(`qmoji exited before connecting:\n${chunks.join('')}`);
+  }
+
+  const query = <T>(sql: string, ...params: unknown[]) => {
+    const db = new Database(join(root, 'data', 'qmoji.db'), { readonly: true });
+    try {
+      return db.prepare(sql).all(...params) as T[];
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    root,
+    query,
+    waitForRows: async <T>(sql: string, params: unknown[] = [], timeout = 5000) => {
+      const deadline = Date.now() + timeout;
+      for (;;) {
+        const rows = query<T>(sql, ...params);
+        if (rows.length || Date.now() > deadline) return rows;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    },
+    exec: (sql) => {
+      const db = new Database(join(root, 'data', 'qmoji.db'));
+      try {
+        db.exec(sql);
+      } finally {
+        db.close();
+      }
+    },
+    stop: async () => {
+      if (child.exitCode === null) {
+        child.kill('SIGINT');
+        await exited;
+      }
+      await rm(root, { recursive: true, force: true });
+    }
+  };
+};
@@ -0,0 +1,322 @@
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+
+export type Segment = { type: string; data: Record<string, unknown> };
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export interface ActionCall {
+  action: string;
+  params: Record<string, unknown>;
+}
+
+interface StoredMessage {
+  message_id: number;
+  message_type: 'group' | 'private';
+  group_id?: number;
+  user_id: number;
+  message: Segment[];
+}
+
+interface Waiter {
+  matches: (call: ActionCall) => boolean;
+  resolve: (call: ActionCall) => void;
+}
+
+export const SELF_ID = 10000;
+
+/**
+ * In-process stand-in for a NapCat (OneBot v11) WebSocket server.
+ * It answers the actions qmoji uses, records every call so tests can assert on them,
+ * and pushes message events as if they came from QQ.
+ */
+export class FakeNapCat {
+  /** Group roles by `${groupId}:${userId}`; anyone not listed is a member. */
+  readonly roles = new Map<string, GroupRole>();
+  /** Users who are not in a group, by `${groupId}:${userId}`; member lookups fail for them. */
+  readonly outsiders = new Set<string>();
+
+  private readonly server: WebSocketServer;
+  private readonly calls: (ActionCall & { consumed: boolean })[] = [];
+  private readonly waiters: Waiter[] = [];
+  private readonly messages = new Map<number, StoredMessage>();
+  private readonly connectionWaiters: (() => void)[] = [];
+  private socket: WebSocket | null = null;
+  private nextMessageId = 1000;
+
+  private constructor(server: WebSocketServer) {
+    this.server = server;
+    server.on('connection', (socket) => {
+      this.socket = socket;
+      socket.on('message', (data) => this.onRequest(socket, data.toString()));
+      this.connectionWaiters.splice(0).forEach((resolve) => resolve());
+    });
+  }
+
+  static async start(): Promise<FakeNapCat> {
+    const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    return new FakeNapCat(server);
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  waitForConnection(): Promise<void> {
+    if (this.socket) return Promise.resolve();
+    return new Promise((resolve) => this.connectionWaiters.push(resolve));
+  }
+
+  setRole(groupId: number, userId: number, role: GroupRole) {
+    this.roles.set(`${groupId}:${userId}`, role);
+  }
+
+  removeMember(groupId: number, userId: number) {
+    this.outsiders.add(`${groupId}:${userId}`);
+  }
+
+  sendGroupMessage(groupId: number, userId: number, message: Segment[] | string): number {
+    const segments = typeof message === 'string' ? [text(message)] : message;
+    const messageId = this.store({
+      message_type: 'group',
+      group_id: groupId,
+      user_id: userId,
+      message: segments
+    });
+    this.push({
+      post_type: 'message',
+      message_type: 'group',
+      sub_type: 'normal',
+      message_id: messageId,
+      group_id: groupId,
+      user_id: userId,
+      message: segments,
+      raw_message: '',
+      message_format: 'array',
+      font: 14,
+      sender: {
+        user_id: userId,
+        nickname: `user${userId}`,
+        card: '',
+        role: this.roles.get(`${groupId}:${userId}`) ?? 'member'
+      }
+    });
+    return messageId;
+  }
+
+  sendPrivateMessage(userId: number, message: Segment[] | string): number {
+    const segments = typeof message === 'string' ? [text(message)] : message;
+    const messageId = this.store({ message_type: 'private', user_id: userId, message: segments });
+    this.push({
+      post_type: 'message',
+      message_type: 'private',
+      sub_type: 'friend',
+      message_id: messageId,
+      user_id: userId,
+      target_id: SELF_ID,
+      message: segments,
+      raw_message: '',
+      message_format: 'array',
+      font: 14,
+      sender: { user_id: userId, nickname: `user${userId}`, card: '' }
+    });
+    return messageId;
+  }
+
+  /**
+   * Resolves with the oldest call of `action` matching `predicate` that no earlier
+   * expectation has consumed, waiting for it to arrive if necessary.
+   */
+  nextAction(
+    action: string,
+    predicate: (params: Record<string, unknown>) => boolean = () => true,
+    timeout = 5000
+  ): Promise<ActionCall> {
+    const matches = (call: ActionCall) => call.action === action && predicate(call.params);
+    const existing = this.calls.find((call) => !call.consumed && matches(call));
+    if (existing) {
+      existing.consumed = true;
+      return Promise.resolve(existing);
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        matches,
+        resolve: (call) => {
+          clearTimeout(timer);
+          resolve(call);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`Timed out waiting for action ${action}`));
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Resolves with the next message the bot sends to a group or user.
+   */
+  nextMessage(target: { group_id: number } | { user_id: number }, timeout?: number) {
+    return this.nextAction(
+      'send_msg',
+      (params) =>
+        'group_id' in target
+          ? params.group_id === target.group_id
+          : params.user_id === target.user_id && params.group_id === undefined,
+      timeout
+    ).then((call) => call.params.message as Segment[]);
+  }
+
+  /**
+   * Asserts that no unconsumed call of `action` shows up within `duration` ms.
+   */
+  async expectNoAction(action: string, duration = 500): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, duration));
+    const call = this.calls.find((c) => !c.consumed && c.action === action);
+    if (call) {
+      throw new Error(`Unexpected action ${action}: ${JSON.stringify(call.params)}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const client of this.server.clients) client.terminate();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private store(message: Omit<StoredMessage, 'message_id'>): number {
+    const messageId = this.nextMessageId++;
+    this.messages.set(messageId, { message_id: messageId, ...message });
+    return messageId;
+  }
+
+  private push(event: Record<string, unknown>) {
+    if (!this.socket) throw new Error('The bot is not connected');
+    this.socket.send(
+      JSON.stringify({ time: Math.floor(Date.now() / 1000), self_id: SELF_ID, ...event })
+    );
+  }
+
+  private onRequest(socket: WebSocket, raw: string) {
+    const { action, params = {}, echo } = JSON.parse(raw);
+    const call = { action, params, consumed: false };
+    let response: { retcode: number; data: unknown; message?: string };
+    try {
+      response = { retcode: 0, data: this.handle(action, params) };
+    } catch (err) {
+      response = { retcode: 1400, data: null, message: (err as Error).message };
+    }
+    socket.send(
+      JSON.stringify({
+        status: response.retcode === 0 ? 'ok' : 'failed',
+        message: response.message ?? '',
+        wording: response.message ?? '',
+        echo,
+        ...response
+      })
+    );
+    this.calls.push(call);
+    const waiter = this.waiters.find((w) => w.matches(call));
+    if (waiter) {
+      call.consumed = true;
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.resolve(call);
+    }
+  }
+
+  private handle(action: string, params: Record<string, unknown>): unknown {
+    switch (action) {
+      case 'send_msg':
+      case 'send_group_msg':
+      case 'send_private_msg': {
+        const messageId = this.store({
+          message_type: params.group_id !== undefined ? 'group' : 'private',
+          group_id: params.group_id as number | undefined,
+          user_id: SELF_ID,
+          message: params.message as Segment[]
+        });
+        return { message_id: messageId };
+      }
+      case 'get_msg': {
+        const message = this.messages.get(Number(params.message_id));
+        if (!message) throw new Error('消息不存在');
+        return {
+          ...message,
+          time: Math.floor(Date.now() / 1000),
+          sender: { user_id: message.user_id, nickname: `user${message.user_id}` },
+          raw_message: '',
+          message_format: 'array'
+        };
+      }
+      case 'set_msg_emoji_like':
+        return { result: 0, errMsg: '' };
+      case 'get_stranger_info':
+        return { user_id: params.user_id, nickname: `user${params.user_id}` };
+      case 'get_group_info':
+        return { group_id: params.group_id, group_name: `group${params.group_id}` };
+      case 'get_group_member_info':
+        if (this.outsiders.has(`${params.group_id}:${params.user_id}`)) {
+          throw new Error('群成员不存在');
+        }
+        return {
+          group_id: params.group_id,
+          user_id: params.user_id,
+          nickname: `user${params.user_id}`,
+          card: '',
+          role: this.roles.get(`${params.group_id}:${params.user_id}`) ?? 'member'
+        };
+      case 'get_group_file_url':
+      case 'get_private_file_url':
+        // Tests use the URL a fixture is served at as the file id
+        return { url: params.file_id };
+      default:
+        return null;
+    }
+  }
+}
+
+export const text = (value: string): Segment => ({ type: 'text', data: { text: value } });
+
+export const at = (userId: number): Segment => ({ type: 'at', data: { qq: String(userId) } });
+
+export const reply = (messageId: number): Segment => ({
+  type: 'reply',
+  data: { id: String(messageId) }
+});
+
+export const image = (url: string, file = 'image.png'): Segment => ({
+  type: 'image',
+  data: { file, url, summary: '[图片]', file_size: '0', sub_type: 0 }
+});
+
+export const file = (url: string, name = 'file.zip'): Segment => ({
+  type: 'file',
+  data: { file: name, file_id: url, file_size: '0' }
+});
+
+/**
+ * Concatenates the text of all text segments, including those nested in forward nodes.
+ */
+export const textOf = (segments: Segment[]): string =>
+  segments
+    .map((segment) =>
+      segment.type === 'text'
+        ? String(segment.data.text)
+        : segment.type === 'node'
+          ? textOf(segment.data.content as Segment[])
+          : ''
+    )
+    .join('');
+
+/**
+ * Returns the decoded `base64://` payloads of all image segments, including nested ones.
+ */
+export const imagesOf = (segments: Segment[]): Buffer[] =>
+  segments.flatMap((segment) =>
+    segment.type === 'image'
+      ? [Buffer.from(String(segment.data.file).replace(/^base64:\/\//, ''), 'base64')]
+      : segment.type === 'node'
+        ? imagesOf(segment.data.content as Segment[])
+        : []
+  );
@@ -0,0 +1,51 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+/** A 1×1 transparent PNG. */
+export const png = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/** A 1×1 GIF. */
+export const gif = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+/**
+ * Serves fixed responses over HTTP so image downloads never leave the machine.
+ */
+export class FixtureServer {
+  private readonly files = new Map<string, { body: Buffer; contentType: string }>();
+
+  private constructor(private readonly server: Server) {
+    server.on('request', (req, res) => {
+      const file = this.files.get(req.url ?? '');
+      if (!file) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': file.contentType, 'content-length': file.body.length });
+      res.end(file.body);
+    });
+  }
+
+  static async start(): Promise<FixtureServer> {
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return new FixtureServer(server);
+  }
+
+  /**
+   * Registers `body` under `path` and returns its absolute URL.
+   */
+  serve(path: string, body: Buffer, contentType = 'image/png'): string {
+    this.files.set(path, { body, contentType });
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}${path}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}